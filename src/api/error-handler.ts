@@ -1,42 +1,82 @@
-
 import type { Response } from 'express';
 import { RiotApiError, RateLimitError, PlayerNotFoundError, InvalidApiKeyError } from './errors.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('api');
+
+export interface ErrorResponse {
+  status: number;
+  body: {
+    error: string;
+    message: string;
+    [key: string]: unknown;
+  };
+}
 
 /**
- * Convert custom error types to HTTP responses
- * @param error - Custom error instance
- * @param res - Express response object
+ * Convert custom error types to an HTTP status and JSON body
+ * @param error - Thrown value; anything other than the custom error types maps to a generic 500
+ * @returns Status code and response body
  */
-export function handleApiError(error: any, res: Response): void {
-  console.error('API Error:', error);
-
+export function toErrorResponse(error: unknown): ErrorResponse {
   if (error instanceof InvalidApiKeyError) {
-    res.status(401).json({
-      error: 'Invalid API key',
-      message: 'Please check your RIOT_API_KEY environment variable'
-    });
+    return {
+      status: 401,
+      body: {
+        error: 'Invalid API key',
+        message: 'Please check your RIOT_API_KEY environment variable'
+      }
+    };
   } else if (error instanceof PlayerNotFoundError) {
-    res.status(404).json({
-      error: 'Player not found',
-      message: error.message
-    });
+    return {
+      status: 404,
+      body: {
+        error: 'Player not found',
+        message: error.message
+      }
+    };
   } else if (error instanceof RateLimitError) {
-    res.status(429).json({
-      error: 'Rate limit exceeded',
-      message: `Please try again in ${error.retryAfter} seconds`,
-      retryAfter: error.retryAfter
-    });
+    return {
+      status: 429,
+      body: {
+        error: 'Rate limit exceeded',
+        message: `Please try again in ${error.retryAfter} seconds`,
+        retryAfter: error.retryAfter
+      }
+    };
   } else if (error instanceof RiotApiError) {
-    res.status(error.statusCode).json({
-      error: 'Riot API error',
-      message: error.message,
-      statusCode: error.statusCode
-    });
+    return {
+      status: error.statusCode,
+      body: {
+        error: 'Riot API error',
+        message: error.message,
+        statusCode: error.statusCode
+      }
+    };
   } else {
     // Generic error for unexpected errors
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'An unexpected error occurred'
-    });
+    return {
+      status: 500,
+      body: {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred'
+      }
+    };
+  }
+}
+
+/**
+ * Convert custom error types to HTTP responses
+ * @param error - Custom error instance
+ * @param res - Express response object
+ */
+export function handleApiError(error: any, res: Response): void {
+  const { status, body } = toErrorResponse(error);
+  if (status >= 500) {
+    logger.error('API error', { status, error });
+  } else {
+    logger.warn('API error', { status, error });
   }
+
+  res.status(status).json(body);
 }
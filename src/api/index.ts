@@ -2,3 +2,5 @@ export * from './riot-client';
 export * from './routing';
 export * from './errors';
 export * from './error-handler';
+export * from './rate-limiter';
+export * from './retry';
@@ -0,0 +1,243 @@
+/**
+ * Rate limiter for Riot API requests
+ *
+ * Riot enforces fixed-window limits per routing value (platform or region):
+ * - Application limits apply to every request made with the API key
+ * - Method limits apply to each endpoint separately
+ * Both are advertised in X-App-Rate-Limit / X-Method-Rate-Limit headers ("20:1,100:120")
+ * with current usage in the matching -Count headers ("3:1,40:120").
+ */
+
+import { RateLimitError } from './errors.js';
+
+export interface RateLimitWindow {
+  limit: number;
+  windowSeconds: number;
+  count: number;
+  resetsInMs: number;
+}
+
+export interface RateLimitBucketState {
+  key: string;
+  windows: RateLimitWindow[];
+  blockedForMs: number;
+}
+
+export interface RateLimiterOptions {
+  /** Application limits assumed before Riot has told us the real ones (defaults to dev key limits) */
+  defaultAppLimits?: string;
+  /** Longest time a request may wait in the queue before failing with a RateLimitError */
+  maxQueueWaitMs?: number;
+}
+
+type HeaderValue = string | number | boolean | string[] | null | undefined;
+type Headers = Record<string, HeaderValue>;
+
+class Window {
+  count = 0;
+  windowStart = 0;
+
+  constructor(public limit: number, public windowMs: number) {}
+
+  /** Milliseconds until a request fits into this window */
+  waitTime(now: number): number {
+    if (now - this.windowStart >= this.windowMs) {
+      return 0;
+    }
+    return this.count < this.limit ? 0 : this.windowStart + this.windowMs - now;
+  }
+
+  consume(now: number): void {
+    if (now - this.windowStart >= this.windowMs) {
+      this.windowStart = now;
+      this.count = 0;
+    }
+    this.count++;
+  }
+}
+
+class Bucket {
+  windows: Window[] = [];
+  blockedUntil = 0;
+
+  constructor(public key: string) {}
+
+  waitTime(now: number): number {
+    const blocked = Math.max(0, this.blockedUntil - now);
+    return Math.max(blocked, ...this.windows.map(window => window.waitTime(now)));
+  }
+
+  consume(now: number): void {
+    for (const window of this.windows) {
+      window.consume(now);
+    }
+  }
+
+  /**
+   * Apply limits and counts reported by Riot, keeping local counts for windows that already exist
+   */
+  update(limits: Map<number, number>, counts: Map<number, number>, now: number): void {
+    this.windows = [...limits].map(([windowSeconds, limit]) => {
+      const windowMs = windowSeconds * 1000;
+      const window = this.windows.find(w => w.windowMs === windowMs) ?? new Window(limit, windowMs);
+      window.limit = limit;
+
+      const reported = counts.get(windowSeconds);
+      if (reported !== undefined) {
+        if (now - window.windowStart >= window.windowMs) {
+          window.windowStart = now;
+          window.count = reported;
+        } else {
+          window.count = Math.max(window.count, reported);
+        }
+      }
+      return window;
+    });
+  }
+
+  snapshot(now: number): RateLimitBucketState {
+    return {
+      key: this.key,
+      windows: this.windows.map(window => {
+        const expired = now - window.windowStart >= window.windowMs;
+        return {
+          limit: window.limit,
+          windowSeconds: window.windowMs / 1000,
+          count: expired ? 0 : window.count,
+          resetsInMs: expired ? 0 : window.windowStart + window.windowMs - now
+        };
+      }),
+      blockedForMs: Math.max(0, this.blockedUntil - now)
+    };
+  }
+}
+
+/**
+ * Parse a Riot rate limit header ("20:1,100:120") into a map of window seconds to value
+ */
+export function parseRateLimitHeader(header: HeaderValue): Map<number, number> {
+  const result = new Map<number, number>();
+  if (typeof header !== 'string') {
+    return result;
+  }
+
+  for (const part of header.split(',')) {
+    const [value, windowSeconds] = part.trim().split(':').map(Number);
+    if (Number.isFinite(value) && Number.isFinite(windowSeconds) && windowSeconds! > 0) {
+      result.set(windowSeconds!, value!);
+    }
+  }
+  return result;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class RateLimiter {
+  private _appBuckets = new Map<string, Bucket>();
+  private _methodBuckets = new Map<string, Bucket>();
+  private _defaultAppLimits: Map<number, number>;
+  private _maxQueueWaitMs: number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this._defaultAppLimits = parseRateLimitHeader(options.defaultAppLimits ?? '20:1,100:120');
+    this._maxQueueWaitMs = options.maxQueueWaitMs ?? 60000;
+  }
+
+  /**
+   * Wait until a request for the given routing value and method fits within all known limits,
+   * then reserve a slot for it
+   * @param routing - Platform or region the request goes to (e.g., na1, americas)
+   * @param method - Endpoint identifier (e.g., summoner-v4.getByPuuid)
+   * @throws RateLimitError if the request would have to wait longer than maxQueueWaitMs
+   */
+  async acquire(routing: string, method: string): Promise<void> {
+    const appBucket = this._getAppBucket(routing);
+    const methodBucket = this._getMethodBucket(routing, method);
+    const deadline = Date.now() + this._maxQueueWaitMs;
+
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(appBucket.waitTime(now), methodBucket.waitTime(now));
+
+      if (wait === 0) {
+        appBucket.consume(now);
+        methodBucket.consume(now);
+        return;
+      }
+
+      if (now + wait > deadline) {
+        throw new RateLimitError(Math.ceil(wait / 1000));
+      }
+
+      await sleep(wait);
+    }
+  }
+
+  /**
+   * Sync buckets with the limits and counts reported in a Riot response
+   * @param routing - Platform or region the request went to
+   * @param method - Endpoint identifier
+   * @param headers - Response headers
+   */
+  update(routing: string, method: string, headers: Headers): void {
+    const now = Date.now();
+
+    const appLimits = parseRateLimitHeader(headers['x-app-rate-limit']);
+    if (appLimits.size > 0) {
+      this._getAppBucket(routing).update(appLimits, parseRateLimitHeader(headers['x-app-rate-limit-count']), now);
+    }
+
+    const methodLimits = parseRateLimitHeader(headers['x-method-rate-limit']);
+    if (methodLimits.size > 0) {
+      this._getMethodBucket(routing, method).update(methodLimits, parseRateLimitHeader(headers['x-method-rate-limit-count']), now);
+    }
+  }
+
+  /**
+   * Block the bucket that was exceeded after a 429 response
+   * @param routing - Platform or region the request went to
+   * @param method - Endpoint identifier
+   * @param retryAfterSeconds - Value of the Retry-After header
+   * @param limitType - Value of the X-Rate-Limit-Type header (application, method or service)
+   */
+  penalize(routing: string, method: string, retryAfterSeconds: number, limitType?: string): void {
+    const blockedUntil = Date.now() + retryAfterSeconds * 1000;
+    const bucket = limitType === 'application'
+      ? this._getAppBucket(routing)
+      : this._getMethodBucket(routing, method);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, blockedUntil);
+  }
+
+  /**
+   * Get the current state of every bucket
+   */
+  getState(): { application: RateLimitBucketState[]; method: RateLimitBucketState[] } {
+    const now = Date.now();
+    return {
+      application: [...this._appBuckets.values()].map(bucket => bucket.snapshot(now)),
+      method: [...this._methodBuckets.values()].map(bucket => bucket.snapshot(now))
+    };
+  }
+
+  private _getAppBucket(routing: string): Bucket {
+    let bucket = this._appBuckets.get(routing);
+    if (!bucket) {
+      bucket = new Bucket(routing);
+      bucket.update(this._defaultAppLimits, new Map(), Date.now());
+      this._appBuckets.set(routing, bucket);
+    }
+    return bucket;
+  }
+
+  private _getMethodBucket(routing: string, method: string): Bucket {
+    const key = `${routing}:${method}`;
+    let bucket = this._methodBuckets.get(key);
+    if (!bucket) {
+      bucket = new Bucket(key);
+      this._methodBuckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Retry policy for transient Riot API failures
+ *
+ * 429 responses are retried after Retry-After, 5xx responses and network timeouts
+ * use jittered exponential backoff. Attempts and total wall time are both capped.
+ */
+
+import type { AxiosError } from 'axios';
+
+export interface RetryPolicy {
+  /** Total attempts including the first request (1 disables retries) */
+  maxAttempts: number;
+  /** Give up once retrying would exceed this much time since the first attempt */
+  maxElapsedMs: number;
+  /** Backoff base delay, doubled on every attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+}
+
+/**
+ * Preset policies for common call sites
+ */
+export const RetryPolicies = {
+  /** No retries: surface the error immediately */
+  failFast: { maxAttempts: 1, maxElapsedMs: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  /** Short retries suitable for requests a user is waiting on */
+  interactive: { maxAttempts: 3, maxElapsedMs: 8000, baseDelayMs: 250, maxDelayMs: 2000 },
+  /** Patient retries for background jobs */
+  background: { maxAttempts: 6, maxElapsedMs: 120000, baseDelayMs: 1000, maxDelayMs: 30000 }
+} satisfies Record<string, RetryPolicy>;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN']);
+
+/**
+ * Check whether a failed request may succeed if retried
+ * @param error - Axios error from the failed request
+ * @returns true for 429, 5xx gateway/server errors and network timeouts
+ */
+export function isRetryableError(error: AxiosError): boolean {
+  if (error.response) {
+    return RETRYABLE_STATUSES.has(error.response.status);
+  }
+  return error.code !== undefined && RETRYABLE_NETWORK_CODES.has(error.code);
+}
+
+/**
+ * Compute how long to wait before the next attempt
+ * @param policy - Retry policy in effect
+ * @param attempt - Number of attempts made so far (1 after the first failure)
+ * @param retryAfterSeconds - Retry-After header value, if the server sent one
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfterSeconds?: number): number {
+  if (retryAfterSeconds !== undefined && Number.isFinite(retryAfterSeconds)) {
+    return retryAfterSeconds * 1000;
+  }
+
+  // Full jitter: a random delay between 0 and the exponential cap
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * cap);
+}
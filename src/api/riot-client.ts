@@ -4,60 +4,182 @@
  */
 
 import axios, { AxiosError } from 'axios';
-import type { AxiosInstance } from 'axios';
-import type { AccountDto, SummonerDto, LeagueEntryDto } from '../types/index.js';
+import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import type { AccountDto, SummonerDto, LeagueEntryDto, LeagueListDto, MatchDto, MatchIdsQuery, ChampionMasteryDto, CurrentGameInfoDto, MatchRegion, Region, TftLeagueEntryDto, TftMatchDto, TftMatchIdsQuery } from '../types/index.js';
 import { ApiRouting } from './routing.js';
 import { RiotApiError, RateLimitError, PlayerNotFoundError, InvalidApiKeyError } from './errors.js';
+import { RateLimiter } from './rate-limiter.js';
+import type { RateLimiterOptions, RateLimitBucketState } from './rate-limiter.js';
+import { RetryPolicies, isRetryableError, getRetryDelay } from './retry.js';
+import type { RetryPolicy } from './retry.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import type { SingleFlightStats } from '../utils/single-flight.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('riot-client');
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Endpoint identifier used for method rate limit buckets */
+    rateLimitMethod?: string;
+    /** Retry policy overrides for this request */
+    retry?: Partial<RetryPolicy>;
+    /** Attempts made so far and when the first one started */
+    retryState?: { attempt: number; startedAt: number };
+    /** When the current attempt was sent, for request duration logging */
+    sentAt?: number;
+  }
+}
+
+export interface RiotClientOptions {
+  rateLimit?: RateLimiterOptions;
+  /** Timeout for a single request in milliseconds (defaults to 10 seconds) */
+  timeoutMs?: number;
+  /** Default retry policy for every request (defaults to RetryPolicies.interactive) */
+  retry?: Partial<RetryPolicy>;
+}
+
+export interface RiotRequestOptions {
+  /** Retry policy overrides for this call, e.g. RetryPolicies.failFast or RetryPolicies.background */
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Get the routing value (platform or region) from a Riot API URL
+ * @param url - Full request URL (e.g., https://na1.api.riotgames.com/...)
+ * @returns Routing value (e.g., na1, americas)
+ */
+function getRoutingFromUrl(url: string): string {
+  return new URL(url).hostname.split('.')[0] ?? url;
+}
 
 export class RiotClient {
   private _client: AxiosInstance;
   private _apiKey: string;
+  private _rateLimiter: RateLimiter;
+  private _retryPolicy: RetryPolicy;
+  private _singleFlight = new SingleFlight();
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: RiotClientOptions = {}) {
     if (!apiKey) {
       throw new Error('API key is required');
     }
     
     this._apiKey = apiKey;
+    this._rateLimiter = new RateLimiter(options.rateLimit);
+    this._retryPolicy = { ...RetryPolicies.interactive, ...options.retry };
     this._client = axios.create({
       headers: {
         'X-Riot-Token': apiKey,
       },
-      timeout: 10000, // 10 second timeout
+      timeout: options.timeoutMs ?? 10000,
     });
 
-    // Add response interceptor for error handling
+    // Wait for a rate limit slot before every request
+    this._client.interceptors.request.use(async (config) => {
+      config.retryState ??= { attempt: 1, startedAt: Date.now() };
+      if (config.url && config.rateLimitMethod) {
+        await this._rateLimiter.acquire(getRoutingFromUrl(config.url), config.rateLimitMethod);
+      }
+      config.sentAt = Date.now();
+      logger.debug('Riot API request', { method: config.rateLimitMethod, url: config.url, attempt: config.retryState.attempt });
+      return config;
+    });
+
+    // Add response interceptor for rate limit tracking and error handling
     this._client.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => this._handleApiError(error)
+      (response) => {
+        logger.debug('Riot API response', {
+          method: response.config.rateLimitMethod,
+          status: response.status,
+          durationMs: Date.now() - (response.config.sentAt ?? Date.now())
+        });
+        this._trackRateLimits(response.config, response.headers);
+        return response;
+      },
+      async (error: AxiosError) => {
+        // Errors raised before the request was sent (e.g., rate limit queue timeout) are already typed
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+        if (error.config && error.response) {
+          this._trackRateLimits(error.config, error.response.headers);
+        }
+        if (error.config && await this._waitForRetry(error)) {
+          return this._client.request(error.config);
+        }
+        return this._handleApiError(error);
+      }
     );
   }
 
+  /**
+   * Get the current state of all rate limit buckets
+   * @returns Application buckets per routing value and method buckets per routing value and endpoint
+   */
+  getRateLimitState(): { application: RateLimitBucketState[]; method: RateLimitBucketState[] } {
+    return this._rateLimiter.getState();
+  }
+
+  /**
+   * Get request coalescing metrics
+   * @returns How many calls shared an identical in-flight request instead of hitting the API
+   */
+  getCoalescingStats(): SingleFlightStats {
+    return this._singleFlight.getStats();
+  }
+
+  /**
+   * Perform a GET request, sharing one in-flight request between identical concurrent calls
+   * @param url - Request URL
+   * @param config - Request config (query params are part of the request identity)
+   * @returns Axios response
+   */
+  private _get<T>(url: string, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const key = `${url}?${JSON.stringify(config.params ?? {})}`;
+    return this._singleFlight.do(key, () => this._client.get<T>(url, config));
+  }
+
   /**
    * Get account information by Riot ID using Account V1 API
    * @param gameName - Player's game name
    * @param tagLine - Player's tag line
    * @param region - Region to query (defaults to americas)
+   * @param options - Per-call request options (e.g., retry policy)
    * @returns Account information including PUUID
    */
-  async getAccountByRiotId(gameName: string, tagLine: string, region: string = 'americas'): Promise<AccountDto> {
+  async getAccountByRiotId(gameName: string, tagLine: string, region: string = 'americas', options: RiotRequestOptions = {}): Promise<AccountDto> {
     try {
       const baseUrl = ApiRouting.getRegionalBaseUrl(region as any);
       const url = `${baseUrl}/riot/account/v1/accounts/by-riot-id/${encodeURIComponent(gameName)}/${encodeURIComponent(tagLine)}`;
-      
-      console.log('🌐 Riot API Request:');
-      console.log('📤 URL:', url);
-      console.log('📤 Headers:', { 'X-Riot-Token': '***hidden***' });
-      
-      const response = await this._client.get<AccountDto>(url);
-      
-      console.log('📥 Riot API Response:');
-      console.log('📊 Status:', response.status);
-      console.log('📊 Data:', JSON.stringify(response.data, null, 2));
-      
+
+      const response = await this._get<AccountDto>(url, { ...options, rateLimitMethod: 'account-v1.getByRiotId' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch account information', 500);
+    }
+  }
+
+  /**
+   * Get account information (current gameName and tagLine) by PUUID using Account V1 API
+   * @param puuid - Player's PUUID
+   * @param region - Region to query (defaults to americas)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Account information including Riot ID
+   */
+  async getAccountByPuuid(puuid: string, region: Region = 'americas', options: RiotRequestOptions = {}): Promise<AccountDto> {
+    try {
+      const baseUrl = ApiRouting.getRegionalBaseUrl(region);
+      const url = `${baseUrl}/riot/account/v1/accounts/by-puuid/${encodeURIComponent(puuid)}`;
+
+      const response = await this._get<AccountDto>(url, { ...options, rateLimitMethod: 'account-v1.getByPuuid' });
+
       return response.data;
     } catch (error) {
-      console.log('❌ Riot API Error:', error);
       if (error instanceof RiotApiError) {
         throw error;
       }
@@ -69,26 +191,18 @@ export class RiotClient {
    * Get summoner information by PUUID using Summoner-V4 API
    * @param puuid - Player's PUUID
    * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
    * @returns Summoner information including level and profile icon
    */
-  async getSummonerByPuuid(puuid: string, platform: string): Promise<SummonerDto> {
+  async getSummonerByPuuid(puuid: string, platform: string, options: RiotRequestOptions = {}): Promise<SummonerDto> {
     try {
       const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
-      const url = `${baseUrl}/lol/summoner/v4/summoners/by-puuid/${puuid}`;
-      
-      console.log('🌐 Summoner-V4 Request:');
-      console.log('📤 URL:', url);
-      console.log('📤 Headers:', { 'X-Riot-Token': '***hidden***' });
-      
-      const response = await this._client.get<SummonerDto>(url);
-      
-      console.log('📥 Summoner-V4 Response:');
-      console.log('📊 Status:', response.status);
-      console.log('📊 Data:', JSON.stringify(response.data, null, 2));
-      
+      const url = `${baseUrl}/lol/summoner/v4/summoners/by-puuid/${encodeURIComponent(puuid)}`;
+
+      const response = await this._get<SummonerDto>(url, { ...options, rateLimitMethod: 'summoner-v4.getByPuuid' });
+
       return response.data;
     } catch (error) {
-      console.log('❌ Summoner-V4 Error:', error);
       if (error instanceof RiotApiError) {
         throw error;
       }
@@ -100,26 +214,18 @@ export class RiotClient {
    * Get league entries by PUUID using League-V4 API
    * @param encryptedPUUID - Encrypted PUUID
    * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
    * @returns Array of league entries for ranked stats
    */
-  async getLeagueEntriesbyEncryptedPUUID(encryptedPUUID: string, platform: string): Promise<LeagueEntryDto[]> {
+  async getLeagueEntriesbyEncryptedPUUID(encryptedPUUID: string, platform: string, options: RiotRequestOptions = {}): Promise<LeagueEntryDto[]> {
     try {
       const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
-      const url = `${baseUrl}/lol/league/v4/entries/by-puuid/${encryptedPUUID}`;
-      
-      console.log('🌐 League-V4 Request:');
-      console.log('📤 URL:', url);
-      console.log('📤 Headers:', { 'X-Riot-Token': '***hidden***' });
-      
-      const response = await this._client.get<LeagueEntryDto[]>(url);
-      
-      console.log('📥 League-V4 Response:');
-      console.log('📊 Status:', response.status);
-      console.log('📊 Data:', JSON.stringify(response.data, null, 2));
-      
+      const url = `${baseUrl}/lol/league/v4/entries/by-puuid/${encodeURIComponent(encryptedPUUID)}`;
+
+      const response = await this._get<LeagueEntryDto[]>(url, { ...options, rateLimitMethod: 'league-v4.getEntriesByPuuid' });
+
       return response.data;
     } catch (error) {
-      console.log('❌ League-V4 Error:', error);
       if (error instanceof RiotApiError) {
         throw error;
       }
@@ -127,6 +233,330 @@ export class RiotClient {
     }
   }
 
+  /**
+   * Get the Challenger league for a queue using League-V4 API
+   * @param queue - Ranked queue (e.g., RANKED_SOLO_5x5)
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Every entry in the league, unsorted
+   */
+  async getChallengerLeague(queue: string, platform: string, options: RiotRequestOptions = {}): Promise<LeagueListDto> {
+    return this._getApexLeague('challengerleagues', queue, platform, options);
+  }
+
+  /**
+   * Get the Grandmaster league for a queue using League-V4 API
+   * @param queue - Ranked queue (e.g., RANKED_SOLO_5x5)
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Every entry in the league, unsorted
+   */
+  async getGrandmasterLeague(queue: string, platform: string, options: RiotRequestOptions = {}): Promise<LeagueListDto> {
+    return this._getApexLeague('grandmasterleagues', queue, platform, options);
+  }
+
+  /**
+   * Get the Master league for a queue using League-V4 API
+   * @param queue - Ranked queue (e.g., RANKED_SOLO_5x5)
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Every entry in the league, unsorted
+   */
+  async getMasterLeague(queue: string, platform: string, options: RiotRequestOptions = {}): Promise<LeagueListDto> {
+    return this._getApexLeague('masterleagues', queue, platform, options);
+  }
+
+  /**
+   * Get all champion masteries by PUUID using Champion-Mastery-V4 API
+   * @param puuid - Player's PUUID
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Champion masteries sorted by points, highest first
+   */
+  async getChampionMasteriesByPuuid(puuid: string, platform: string, options: RiotRequestOptions = {}): Promise<ChampionMasteryDto[]> {
+    try {
+      const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
+      const url = `${baseUrl}/lol/champion-mastery/v4/champion-masteries/by-puuid/${encodeURIComponent(puuid)}`;
+
+      const response = await this._get<ChampionMasteryDto[]>(url, { ...options, rateLimitMethod: 'champion-mastery-v4.getAllByPuuid' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch champion masteries', 500);
+    }
+  }
+
+  /**
+   * Get total champion mastery score by PUUID using Champion-Mastery-V4 API
+   * @param puuid - Player's PUUID
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Sum of all champion mastery levels
+   */
+  async getChampionMasteryScoreByPuuid(puuid: string, platform: string, options: RiotRequestOptions = {}): Promise<number> {
+    try {
+      const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
+      const url = `${baseUrl}/lol/champion-mastery/v4/scores/by-puuid/${encodeURIComponent(puuid)}`;
+
+      const response = await this._get<number>(url, { ...options, rateLimitMethod: 'champion-mastery-v4.getScoreByPuuid' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch champion mastery score', 500);
+    }
+  }
+
+  /**
+   * Get the active game for a player using Spectator-V5 API
+   * @param puuid - Player's PUUID
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Current game information, or null if the player is not in a game
+   */
+  async getActiveGameByPuuid(puuid: string, platform: string, options: RiotRequestOptions = {}): Promise<CurrentGameInfoDto | null> {
+    try {
+      const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
+      const url = `${baseUrl}/lol/spectator/v5/active-games/by-summoner/${encodeURIComponent(puuid)}`;
+
+      const response = await this._get<CurrentGameInfoDto>(url, { ...options, rateLimitMethod: 'spectator-v5.getActiveGame' });
+
+      return response.data;
+    } catch (error) {
+      // Spectator returns 404 when the player is simply not in a game
+      if (error instanceof RiotApiError && error.statusCode === 404) {
+        logger.debug('Player is not in a game', { platform });
+        return null;
+      }
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch active game', 500);
+    }
+  }
+
+  /**
+   * Get a list of match IDs by PUUID using Match-V5 API
+   * @param puuid - Player's PUUID
+   * @param region - Regional route the player's matches live on (americas, europe, asia)
+   * @param query - Optional queue/type/time filters and pagination
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Array of match IDs, most recent first
+   */
+  async getMatchIdsByPuuid(puuid: string, region: Region, query: MatchIdsQuery = {}, options: RiotRequestOptions = {}): Promise<string[]> {
+    try {
+      const baseUrl = ApiRouting.getRegionalBaseUrl(region);
+      const url = `${baseUrl}/lol/match/v5/matches/by-puuid/${encodeURIComponent(puuid)}/ids`;
+
+      const response = await this._get<string[]>(url, { ...options, params: query, rateLimitMethod: 'match-v5.getIdsByPuuid' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch match IDs', 500);
+    }
+  }
+
+  /**
+   * Get match details by match ID using Match-V5 API
+   * @param matchId - Match ID including platform prefix (e.g., NA1_1234567890)
+   * @param region - Regional route the match lives on (americas, europe, asia, or sea for OC1, SG2, TW2 and VN2)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Full match details including all participants
+   */
+  async getMatchById(matchId: string, region: MatchRegion, options: RiotRequestOptions = {}): Promise<MatchDto> {
+    try {
+      const baseUrl = ApiRouting.getRegionalBaseUrl(region);
+      const url = `${baseUrl}/lol/match/v5/matches/${encodeURIComponent(matchId)}`;
+
+      const response = await this._get<MatchDto>(url, { ...options, rateLimitMethod: 'match-v5.getMatch' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch match details', 500);
+    }
+  }
+
+  /**
+   * Get TFT summoner information by PUUID using TFT-Summoner-V1 API
+   * @param puuid - Player's PUUID
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Summoner information including level and profile icon
+   */
+  async getTftSummonerByPuuid(puuid: string, platform: string, options: RiotRequestOptions = {}): Promise<SummonerDto> {
+    try {
+      const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
+      const url = `${baseUrl}/tft/summoner/v1/summoners/by-puuid/${encodeURIComponent(puuid)}`;
+
+      const response = await this._get<SummonerDto>(url, { ...options, rateLimitMethod: 'tft-summoner-v1.getByPuuid' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch TFT summoner information', 500);
+    }
+  }
+
+  /**
+   * Get TFT league entries by PUUID using TFT-League-V1 API
+   * @param puuid - Player's PUUID
+   * @param platform - Platform to query (e.g., na1, euw1, kr)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Array of league entries for ranked TFT, Double Up and Hyper Roll
+   */
+  async getTftLeagueEntriesByPuuid(puuid: string, platform: string, options: RiotRequestOptions = {}): Promise<TftLeagueEntryDto[]> {
+    try {
+      const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
+      const url = `${baseUrl}/tft/league/v1/by-puuid/${encodeURIComponent(puuid)}`;
+
+      const response = await this._get<TftLeagueEntryDto[]>(url, { ...options, rateLimitMethod: 'tft-league-v1.getEntriesByPuuid' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch TFT league entries', 500);
+    }
+  }
+
+  /**
+   * Get a list of TFT match IDs by PUUID using TFT-Match-V1 API
+   * @param puuid - Player's PUUID
+   * @param region - Regional route the player's matches live on (americas, europe, asia)
+   * @param query - Optional time filters and pagination
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Array of match IDs, most recent first
+   */
+  async getTftMatchIdsByPuuid(puuid: string, region: Region, query: TftMatchIdsQuery = {}, options: RiotRequestOptions = {}): Promise<string[]> {
+    try {
+      const baseUrl = ApiRouting.getRegionalBaseUrl(region);
+      const url = `${baseUrl}/tft/match/v1/matches/by-puuid/${encodeURIComponent(puuid)}/ids`;
+
+      const response = await this._get<string[]>(url, { ...options, params: query, rateLimitMethod: 'tft-match-v1.getIdsByPuuid' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch TFT match IDs', 500);
+    }
+  }
+
+  /**
+   * Get TFT match details by match ID using TFT-Match-V1 API
+   * @param matchId - Match ID including platform prefix (e.g., NA1_1234567890)
+   * @param region - Regional route the match lives on (americas, europe, asia)
+   * @param options - Per-call request options (e.g., retry policy)
+   * @returns Full match details including all eight participants
+   */
+  async getTftMatchById(matchId: string, region: Region, options: RiotRequestOptions = {}): Promise<TftMatchDto> {
+    try {
+      const baseUrl = ApiRouting.getRegionalBaseUrl(region);
+      const url = `${baseUrl}/tft/match/v1/matches/${encodeURIComponent(matchId)}`;
+
+      const response = await this._get<TftMatchDto>(url, { ...options, rateLimitMethod: 'tft-match-v1.getMatch' });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch TFT match details', 500);
+    }
+  }
+
+  /**
+   * Fetch one of the apex tier league lists
+   * @param endpoint - League-V4 path segment for the tier (e.g., challengerleagues)
+   * @param queue - Ranked queue
+   * @param platform - Platform to query
+   * @param options - Per-call request options
+   */
+  private async _getApexLeague(endpoint: string, queue: string, platform: string, options: RiotRequestOptions): Promise<LeagueListDto> {
+    try {
+      const baseUrl = ApiRouting.getPlatformBaseUrl(platform as any);
+      const url = `${baseUrl}/lol/league/v4/${endpoint}/by-queue/${encodeURIComponent(queue)}`;
+
+      const response = await this._get<LeagueListDto>(url, { ...options, rateLimitMethod: `league-v4.${endpoint}` });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof RiotApiError) {
+        throw error;
+      }
+      throw new RiotApiError('Failed to fetch league list', 500);
+    }
+  }
+
+  /**
+   * Update rate limit buckets from response headers, and block the exceeded bucket after a 429
+   * @param config - Request config
+   * @param headers - Response headers
+   */
+  private _trackRateLimits(config: AxiosRequestConfig, headers: Record<string, any>): void {
+    if (!config.url || !config.rateLimitMethod) {
+      return;
+    }
+
+    const routing = getRoutingFromUrl(config.url);
+    this._rateLimiter.update(routing, config.rateLimitMethod, headers);
+
+    const retryAfter = headers['retry-after'];
+    if (retryAfter) {
+      this._rateLimiter.penalize(routing, config.rateLimitMethod, parseInt(retryAfter, 10), headers['x-rate-limit-type']);
+    }
+  }
+
+  /**
+   * Decide whether a failed request should be retried under its retry policy, and wait before retrying
+   * @param error - Axios error from the failed attempt
+   * @returns true once the retry delay has elapsed, false if the request should fail now
+   */
+  private async _waitForRetry(error: AxiosError): Promise<boolean> {
+    const config = error.config;
+    if (!config?.retryState || !isRetryableError(error)) {
+      return false;
+    }
+
+    const policy: RetryPolicy = { ...this._retryPolicy, ...config.retry };
+    const { attempt, startedAt } = config.retryState;
+    if (attempt >= policy.maxAttempts) {
+      return false;
+    }
+
+    const retryAfter = error.response?.headers['retry-after'];
+    const delay = getRetryDelay(policy, attempt, retryAfter ? parseInt(retryAfter, 10) : undefined);
+    if (Date.now() + delay - startedAt > policy.maxElapsedMs) {
+      return false;
+    }
+
+    logger.info('Retrying Riot API request', {
+      method: config.rateLimitMethod ?? config.url,
+      status: error.response?.status ?? error.code,
+      delayMs: delay,
+      attempt: attempt + 1,
+      maxAttempts: policy.maxAttempts
+    });
+    await new Promise(resolve => setTimeout(resolve, delay));
+    config.retryState.attempt++;
+    return true;
+  }
+
   /**
    * Handle API errors and convert to custom error types
    * @param error - Axios error
@@ -137,13 +567,19 @@ export class RiotClient {
     const responseData = error.response?.data as any;
     const message = responseData?.status?.message || error.message;
 
-    // Log detailed error information for debugging
-    console.log('🚨 Riot API Error Details:');
-    console.log('📊 Status:', status);
-    console.log('📊 Response Headers:', error.response?.headers);
-    console.log('📊 Response Data:', JSON.stringify(responseData, null, 2));
-    console.log('📊 Request URL:', error.config?.url);
-    console.log('📊 Request Method:', error.config?.method);
+    // 404s are expected during platform discovery, so they are only logged at debug level
+    const fields = {
+      method: error.config?.rateLimitMethod,
+      url: error.config?.url,
+      status,
+      message,
+      durationMs: Date.now() - (error.config?.sentAt ?? Date.now())
+    };
+    if (status === 404) {
+      logger.debug('Riot API error', fields);
+    } else {
+      logger.warn('Riot API error', fields);
+    }
 
     switch (status) {
       case 400:
@@ -151,7 +587,6 @@ export class RiotClient {
       case 401:
         throw new InvalidApiKeyError();
       case 403:
-        console.log('🔒 403 Forbidden - API Key Permission Issue');
         throw new RiotApiError('Forbidden: API key does not have permission', 403);
       case 404:
         throw new PlayerNotFoundError('Player not found');
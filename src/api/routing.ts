@@ -4,7 +4,7 @@
  * Handles platform and regional routing for Riot API endpoints
  */
 
-import type { Platform, Region } from '../types/index.js';
+import type { MatchRegion, Platform, Region } from '../types/index.js';
 
 export class ApiRouting {
   /**
@@ -34,16 +34,27 @@ export class ApiRouting {
     return platformToRegion[platform];
   }
 
+  /**
+   * Get the Match-V5 region for a platform
+   * @param platform - Platform identifier
+   * @returns sea for Southeast Asia and Oceania platforms, otherwise the platform's region
+   */
+  static getMatchRegionFromPlatform(platform: Platform): MatchRegion {
+    const seaPlatforms: Platform[] = ['oc1', 'sg2', 'tw2', 'vn2'];
+    return seaPlatforms.includes(platform) ? 'sea' : this.getRegionFromPlatform(platform);
+  }
+
   /**
    * Get regional API base URL
    * @param region - Region identifier
    * @returns Base URL for regional endpoints
    */
-  static getRegionalBaseUrl(region: Region): string {
-    const regionUrls: Record<Region, string> = {
+  static getRegionalBaseUrl(region: MatchRegion): string {
+    const regionUrls: Record<MatchRegion, string> = {
       'americas': 'https://americas.api.riotgames.com',
       'europe': 'https://europe.api.riotgames.com',
-      'asia': 'https://asia.api.riotgames.com'
+      'asia': 'https://asia.api.riotgames.com',
+      'sea': 'https://sea.api.riotgames.com'
     };
 
     return regionUrls[region];
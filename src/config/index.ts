@@ -0,0 +1,347 @@
+/**
+ * Runtime configuration
+ *
+ * Settings are read from environment variables (including .env, loaded by the server),
+ * then an optional JSON file named by CONFIG_FILE, then defaults. Every value is validated
+ * at startup and all problems are reported together.
+ */
+
+import fs from 'fs';
+import { isLogLevel, DEFAULT_REDACT_KEYS } from '../utils/logger.js';
+import type { LogLevel } from '../utils/logger.js';
+
+export interface CacheTTLConfig {
+  account: number;
+  matchIds: number;
+  match: number;
+  mastery: number;
+  ddragonVersion: number;
+  ddragonStatic: number;
+  platform: number;
+  leaderboard: number;
+  riotId: number;
+  /** Entries stored without a TTL of their own */
+  default: number;
+}
+
+export interface AppConfig {
+  port: number;
+  riotApiKey: string;
+  /** Directory for locally persisted data (rank history and similar stores) */
+  dataDir: string;
+  /** Token required by admin routes, or null to disable them */
+  adminToken: string | null;
+  riot: {
+    /** Timeout for a single Riot API request */
+    timeoutMs: number;
+  };
+  cors: {
+    /** Allowed browser origins, or "*" for any origin */
+    origins: string[] | '*';
+  };
+  cache: {
+    backend: 'memory' | 'file';
+    filePath: string;
+    maxKeys: number;
+    /** Size of the match store, kept separate from the backend so matches cannot fill it */
+    matchMaxEntries: number;
+    /** How often expired entries are purged, in seconds */
+    checkPeriod: number;
+    /** Entry lifetimes in seconds */
+    ttl: CacheTTLConfig;
+  };
+  dataDragon: {
+    /** Versions used when the latest version cannot be resolved, most preferred first */
+    fallbackVersions: string[];
+    /** Default locale for static data */
+    locale: string;
+    /** Directory of an extracted ddragon bundle for offline use, or null */
+    bundlePath: string | null;
+    /** How often the current patch is refreshed, in seconds */
+    versionRefreshSeconds: number;
+    /** Timeout for a single Data Dragon request */
+    timeoutMs: number;
+  };
+  assets: {
+    /** Cache-Control max-age sent with proxied images that are not pinned to a patch, in seconds */
+    maxAgeSeconds: number;
+    /** Size of the image cache, kept separate from the API data cache */
+    cacheMaxBytes: number;
+    /** How long images stay in the image cache, in seconds */
+    cacheTtlSeconds: number;
+  };
+  watchlist: {
+    /** Turn background polling on or off (the watchlist routes work either way) */
+    enabled: boolean;
+    /** How often each watched player is refreshed, in seconds */
+    pollIntervalSeconds: number;
+    maxPlayers: number;
+  };
+  webhooks: {
+    /** Total delivery attempts before a delivery is marked failed */
+    maxAttempts: number;
+    /** Timeout for a single delivery request */
+    timeoutMs: number;
+    /** Delay before the first retry (doubling with each further retry), in seconds */
+    retryBaseDelaySeconds: number;
+    /** Allow webhook URLs on private, loopback or link-local addresses (local development only) */
+    allowPrivateDestinations: boolean;
+  };
+  logging: {
+    level: LogLevel;
+    redactPuuids: boolean;
+    redactKeys: string[];
+  };
+}
+
+/**
+ * Thrown when configuration is missing or invalid; lists every problem found
+ */
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export const DEFAULT_CACHE_TTL: CacheTTLConfig = {
+  account: 86400, //24 hrs
+  matchIds: 120, //2 mins, new games show up quickly
+  match: 604800, //7 days, finished matches never change
+  mastery: 3600,
+  ddragonVersion: 3600,
+  ddragonStatic: 86400,
+  platform: 2592000, //30 days, players rarely transfer
+  leaderboard: 300, //5 mins, apex league lists are large and change slowly
+  riotId: 3600, //Riot IDs resolved by PUUID
+  default: 300
+};
+
+export const DEFAULT_CACHE_CONFIG: AppConfig['cache'] = {
+  backend: 'memory',
+  filePath: '.cache/cache.json',
+  maxKeys: 1000,
+  matchMaxEntries: 500,
+  checkPeriod: 60,
+  ttl: DEFAULT_CACHE_TTL
+};
+
+export const DEFAULT_DATA_DRAGON_CONFIG: AppConfig['dataDragon'] = {
+  fallbackVersions: ['15.18.1', '14.18.1', '14.17.1', '14.16.1'],
+  locale: 'en_US',
+  bundlePath: null,
+  versionRefreshSeconds: 3600,
+  timeoutMs: 10000
+};
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const MAX_TTL_SECONDS = 31536000;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Reads each setting from the environment, then the config file, validating as it goes
+ */
+class ConfigReader {
+  readonly problems: string[] = [];
+
+  constructor(private _env: Env, private _file: Record<string, unknown>) {}
+
+  integer(envKey: string, filePath: string, defaultValue: number, min: number, max: number): number {
+    const source = this._source(envKey, filePath);
+    if (!source) {
+      return defaultValue;
+    }
+    const value = typeof source.value === 'string' && source.value.trim() !== '' ? Number(source.value) : source.value;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      this.problems.push(`${source.name} must be an integer between ${min} and ${max} (got ${JSON.stringify(source.value)})`);
+      return defaultValue;
+    }
+    return value;
+  }
+
+  string(envKey: string, filePath: string, defaultValue: string): string {
+    const source = this._source(envKey, filePath);
+    if (!source) {
+      return defaultValue;
+    }
+    if (typeof source.value !== 'string' || source.value.trim() === '') {
+      this.problems.push(`${source.name} must be a non-empty string`);
+      return defaultValue;
+    }
+    return source.value.trim();
+  }
+
+  boolean(envKey: string, filePath: string, defaultValue: boolean): boolean {
+    const source = this._source(envKey, filePath);
+    if (!source) {
+      return defaultValue;
+    }
+    if (source.value === true || source.value === 'true') {
+      return true;
+    }
+    if (source.value === false || source.value === 'false') {
+      return false;
+    }
+    this.problems.push(`${source.name} must be true or false (got ${JSON.stringify(source.value)})`);
+    return defaultValue;
+  }
+
+  /**
+   * Read a list, given as a comma-separated string or a JSON array of strings
+   */
+  list(envKey: string, filePath: string, defaultValue: string[]): string[] {
+    const source = this._source(envKey, filePath);
+    if (!source) {
+      return defaultValue;
+    }
+    const items = typeof source.value === 'string' ? source.value.split(',') : source.value;
+    if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+      this.problems.push(`${source.name} must be a comma-separated list or an array of strings`);
+      return defaultValue;
+    }
+    return items.map(item => item.trim()).filter(Boolean);
+  }
+
+  oneOf<T extends string>(envKey: string, filePath: string, defaultValue: T, allowed: readonly T[]): T {
+    const value = this.string(envKey, filePath, defaultValue);
+    if (!(allowed as readonly string[]).includes(value)) {
+      this.problems.push(`${this._name(envKey, filePath)} must be one of ${allowed.join(', ')} (got "${value}")`);
+      return defaultValue;
+    }
+    return value as T;
+  }
+
+  require(name: string, value: string | null): void {
+    if (!value) {
+      this.problems.push(`${name} is required`);
+    }
+  }
+
+  private _source(envKey: string, filePath: string): { name: string; value: unknown } | null {
+    const envValue = this._env[envKey];
+    if (envValue !== undefined && envValue !== '') {
+      return { name: envKey, value: envValue };
+    }
+    const fileValue = filePath.split('.').reduce<unknown>(
+      (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+      this._file
+    );
+    return fileValue === undefined ? null : { name: `${filePath} (config file)`, value: fileValue };
+  }
+
+  private _name(envKey: string, filePath: string): string {
+    return this._env[envKey] ? envKey : filePath;
+  }
+}
+
+function readConfigFile(filePath: string | undefined): { file: Record<string, unknown>; problem?: string } {
+  if (!filePath) {
+    return { file: {} };
+  }
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { file: {}, problem: `CONFIG_FILE ${filePath} must contain a JSON object` };
+    }
+    return { file: parsed as Record<string, unknown> };
+  } catch (error) {
+    return { file: {}, problem: `CONFIG_FILE ${filePath} could not be read: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Load and validate the runtime configuration
+ * @param env - Environment variables (defaults to process.env)
+ * @returns Validated configuration
+ * @throws ConfigError listing every missing or invalid setting
+ */
+export function loadConfig(env: Env = process.env): AppConfig {
+  const { file, problem } = readConfigFile(env['CONFIG_FILE']);
+  const reader = new ConfigReader(env, file);
+  if (problem) {
+    reader.problems.push(problem);
+  }
+
+  const ttl = {} as CacheTTLConfig;
+  for (const [name, defaultValue] of Object.entries(DEFAULT_CACHE_TTL) as [keyof CacheTTLConfig, number][]) {
+    const envKey = `CACHE_TTL_${name.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`;
+    ttl[name] = reader.integer(envKey, `cache.ttl.${name}`, defaultValue, 1, MAX_TTL_SECONDS);
+  }
+
+  const corsOrigins = reader.list('CORS_ORIGINS', 'cors.origins', ['*']);
+  const fallbackVersions = reader.list('DDRAGON_FALLBACK_VERSIONS', 'dataDragon.fallbackVersions', DEFAULT_DATA_DRAGON_CONFIG.fallbackVersions);
+  const invalidVersions = fallbackVersions.filter(version => !VERSION_PATTERN.test(version));
+  if (fallbackVersions.length === 0 || invalidVersions.length > 0) {
+    reader.problems.push(`DDRAGON_FALLBACK_VERSIONS must list at least one version like 14.18.1 (invalid: ${invalidVersions.join(', ') || 'empty list'})`);
+  }
+
+  const locale = reader.string('DDRAGON_LOCALE', 'dataDragon.locale', DEFAULT_DATA_DRAGON_CONFIG.locale);
+  if (!/^[a-z]{2}_[A-Z]{2}$/.test(locale)) {
+    reader.problems.push(`DDRAGON_LOCALE must be a Data Dragon locale like en_US (got "${locale}")`);
+  }
+  const bundlePath = reader.string('DDRAGON_BUNDLE_PATH', 'dataDragon.bundlePath', '') || null;
+  if (bundlePath && !fs.existsSync(bundlePath)) {
+    reader.problems.push(`DDRAGON_BUNDLE_PATH ${bundlePath} does not exist`);
+  }
+
+  const logLevel = reader.string('LOG_LEVEL', 'logging.level', 'info');
+  if (!isLogLevel(logLevel)) {
+    reader.problems.push(`LOG_LEVEL must be one of debug, info, warn, error, silent (got "${logLevel}")`);
+  }
+
+  const config: AppConfig = {
+    port: reader.integer('PORT', 'port', 3000, 1, 65535),
+    riotApiKey: reader.string('RIOT_API_KEY', 'riotApiKey', ''),
+    dataDir: reader.string('DATA_DIR', 'dataDir', '.data'),
+    adminToken: reader.string('ADMIN_TOKEN', 'adminToken', '') || null,
+    riot: {
+      timeoutMs: reader.integer('RIOT_TIMEOUT_MS', 'riot.timeoutMs', 10000, 100, 120000)
+    },
+    cors: {
+      origins: corsOrigins.includes('*') ? '*' : corsOrigins
+    },
+    cache: {
+      backend: reader.oneOf('CACHE_BACKEND', 'cache.backend', DEFAULT_CACHE_CONFIG.backend, ['memory', 'file'] as const),
+      filePath: reader.string('CACHE_FILE_PATH', 'cache.filePath', DEFAULT_CACHE_CONFIG.filePath),
+      maxKeys: reader.integer('CACHE_MAX_KEYS', 'cache.maxKeys', DEFAULT_CACHE_CONFIG.maxKeys, 1, 1000000),
+      matchMaxEntries: reader.integer('CACHE_MATCH_MAX_ENTRIES', 'cache.matchMaxEntries', DEFAULT_CACHE_CONFIG.matchMaxEntries, 0, 100000),
+      checkPeriod: reader.integer('CACHE_CHECK_PERIOD', 'cache.checkPeriod', DEFAULT_CACHE_CONFIG.checkPeriod, 1, 86400),
+      ttl
+    },
+    dataDragon: {
+      fallbackVersions,
+      locale,
+      bundlePath,
+      versionRefreshSeconds: reader.integer('DDRAGON_VERSION_REFRESH_SECONDS', 'dataDragon.versionRefreshSeconds', DEFAULT_DATA_DRAGON_CONFIG.versionRefreshSeconds, 60, 86400),
+      timeoutMs: reader.integer('DDRAGON_TIMEOUT_MS', 'dataDragon.timeoutMs', DEFAULT_DATA_DRAGON_CONFIG.timeoutMs, 100, 120000)
+    },
+    assets: {
+      maxAgeSeconds: reader.integer('ASSET_MAX_AGE', 'assets.maxAgeSeconds', 86400, 0, MAX_TTL_SECONDS),
+      cacheMaxBytes: reader.integer('ASSET_CACHE_MAX_BYTES', 'assets.cacheMaxBytes', 64 * 1024 * 1024, 0, 4 * 1024 * 1024 * 1024),
+      cacheTtlSeconds: reader.integer('ASSET_CACHE_TTL', 'assets.cacheTtlSeconds', 86400, 1, MAX_TTL_SECONDS)
+    },
+    watchlist: {
+      enabled: reader.boolean('WATCHLIST_ENABLED', 'watchlist.enabled', true),
+      pollIntervalSeconds: reader.integer('WATCHLIST_POLL_INTERVAL_SECONDS', 'watchlist.pollIntervalSeconds', 900, 60, 86400),
+      maxPlayers: reader.integer('WATCHLIST_MAX_PLAYERS', 'watchlist.maxPlayers', 100, 1, 1000)
+    },
+    webhooks: {
+      maxAttempts: reader.integer('WEBHOOK_MAX_ATTEMPTS', 'webhooks.maxAttempts', 5, 1, 20),
+      timeoutMs: reader.integer('WEBHOOK_TIMEOUT_MS', 'webhooks.timeoutMs', 5000, 100, 60000),
+      retryBaseDelaySeconds: reader.integer('WEBHOOK_RETRY_BASE_DELAY_SECONDS', 'webhooks.retryBaseDelaySeconds', 10, 1, 3600),
+      allowPrivateDestinations: reader.boolean('WEBHOOK_ALLOW_PRIVATE_DESTINATIONS', 'webhooks.allowPrivateDestinations', false)
+    },
+    logging: {
+      level: isLogLevel(logLevel) ? logLevel : 'info',
+      redactPuuids: reader.boolean('LOG_REDACT_PUUIDS', 'logging.redactPuuids', true),
+      redactKeys: [...DEFAULT_REDACT_KEYS, ...reader.list('LOG_REDACT_KEYS', 'logging.redactKeys', [])]
+    }
+  };
+
+  reader.require('RIOT_API_KEY', config.riotApiKey);
+  if (reader.problems.length > 0) {
+    throw new ConfigError(reader.problems);
+  }
+  return config;
+}
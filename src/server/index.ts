@@ -4,86 +4,1060 @@
  */
 
 import express from 'express';
+import { randomUUID } from 'crypto';
+import path from 'path';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { RiotClient } from '../api/riot-client.js';
 import { RiotIdParser } from '../utils/riot-id-parser.js';
-import { 
-  querySummonerAcrossPlatforms, 
-  queryLeagueEntriesAcrossPlatforms 
-} from '../utils/parallel-queries.js';
+import { querySummonerAcrossPlatforms } from '../utils/parallel-queries.js';
 import { handleApiError } from '../api/error-handler.js';
 import { CacheService } from '../services/cache.js';
-import type { LeagueEntryDto } from '../types/league.js';
+import { getMatch, getMatchIds, getMatchesSettled, summarizeMatch, buildMatchDetail } from '../services/matches.js';
+import { getAccountProfile, getAccountProfileByPuuid, getAccountProfiles, getAccountProfileStaleWhileRevalidate, getAccountCoalescingStats } from '../services/account.js';
+import type { AccountLookupResult } from '../services/account.js';
+import { getChampionStats } from '../services/champion-stats.js';
+import { getMasteryProfile, getOptionalMasteryProfile } from '../services/mastery.js';
+import { buildLiveGame } from '../services/live-game.js';
+import { getLeaderboard, LEADERBOARD_TIERS, LEADERBOARD_QUEUES } from '../services/leaderboard.js';
+import { comparePlayers } from '../services/compare.js';
+import { getTftProfile, getTftMatchIds, getTftMatchesSettled, summarizeTftMatch } from '../services/tft.js';
+import type { LeaderboardTier, LeaderboardQueue } from '../services/leaderboard.js';
+import { configureRankHistory, getRankHistory } from '../services/rank-history.js';
+import { configureRiotIdHistory, getRiotIdHistory } from '../services/riot-id-history.js';
+import {
+  configureWatchlist,
+  getWatchedPlayers,
+  getWatchedPlayer,
+  getWatchlistChanges,
+  addWatchedPlayer,
+  removeWatchedPlayer,
+  WatchlistPoller,
+  WatchlistFullError
+} from '../services/watchlist.js';
+import { configurePlayerEvents, PLAYER_EVENT_TYPES } from '../services/player-events.js';
+import type { PlayerEventType } from '../services/player-events.js';
+import {
+  configureWebhooks,
+  startWebhookDispatch,
+  getWebhooks,
+  getWebhook,
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  WebhookDestinationError
+} from '../services/webhooks.js';
+import { getPlatformFromMatchId, getPlatformsForRegion, REGION_PLATFORMS } from '../utils/platform-mapping.js';
+import { ApiRouting } from '../api/routing.js';
+import { getAsset, configureAssetCache, getAssetCacheStats, ASSET_KINDS, AssetNotFoundError, AssetUnavailableError } from '../services/assets.js';
+import type { AssetKind, AssetRequest } from '../services/assets.js';
+import type { MatchIdsQuery, Platform, Region, TftMatchIdsQuery } from '../types/index.js';
+import { createLogger, configureLogger, runWithRequestId } from '../utils/logger.js';
+import { loadConfig, ConfigError } from '../config/index.js';
+import type { AppConfig } from '../config/index.js';
+import {
+  configureDataDragon,
+  startVersionTracking,
+  getLatestVersion,
+  getFallbackVersions,
+  getStaticData,
+  getQueueById,
+  isValidLocale,
+  StaticDataNotFoundError
+} from '../services/data-dragon.js';
 
 dotenv.config();
 
+const logger = createLogger('server');
+
+// Load and validate configuration from the environment, .env and CONFIG_FILE before anything starts
+let config: AppConfig;
+try {
+  config = loadConfig();
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  logger.error('Invalid configuration', { problems: error.problems });
+  process.exit(1);
+}
+
+configureLogger(config.logging);
+CacheService.configure(config.cache);
+configureAssetCache({ maxBytes: config.assets.cacheMaxBytes, ttlSeconds: config.assets.cacheTtlSeconds });
+configureDataDragon(config.dataDragon);
+startVersionTracking();
+configureRankHistory(path.join(config.dataDir, 'rank-history.json'));
+configureWatchlist(path.join(config.dataDir, 'watchlist.json'));
+configurePlayerEvents(path.join(config.dataDir, 'player-events.json'));
+configureRiotIdHistory(path.join(config.dataDir, 'riot-id-history.json'));
+configureWebhooks(path.join(config.dataDir, 'webhooks.json'), {
+  maxAttempts: config.webhooks.maxAttempts,
+  timeoutMs: config.webhooks.timeoutMs,
+  retryBaseDelayMs: config.webhooks.retryBaseDelaySeconds * 1000,
+  allowPrivateDestinations: config.webhooks.allowPrivateDestinations
+});
+startWebhookDispatch();
+
 const app = express();
-const PORT = 3000;
+const PORT = config.port;
 
-app.use(cors());
+app.use(cors({ origin: config.cors.origins }));
 app.use(express.json());
 
+/**
+ * Accepted format for a client-supplied X-Request-Id
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
 
-//middleware for req and responses
+// Assign every request an ID (from X-Request-Id or generated), echo it back, and log the request once it finishes
 app.use((req, res, next) => {
-  const timestamp = new Date().toISOString();
-  console.log(`\n[${timestamp}] 🔍 ${req.method} ${req.path}`);
-  console.log(`[${timestamp}] 📥 Query:`, req.query);
-  console.log(`[${timestamp}] 📥 Body:`, req.body);
-  
-  const originalSend = res.json;
-  res.json = function(data) {
-    console.log(`[${timestamp}] 📤 Response:`, JSON.stringify(data, null, 2));
-    return originalSend.call(this, data);
+  const header = req.get('X-Request-Id');
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  const startedAt = Date.now();
+  res.set('X-Request-Id', requestId);
+
+  runWithRequestId(requestId, () => {
+    res.on('finish', () => {
+      logger.info('Request completed', {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt
+      });
+    });
+    next();
+  });
+});
+
+//init riot client 
+const riotClient = new RiotClient(config.riotApiKey, { timeoutMs: config.riot.timeoutMs });
+
+// Refresh watched players in the background
+const watchlistPoller = new WatchlistPoller(riotClient, config.watchlist.pollIntervalSeconds * 1000);
+if (config.watchlist.enabled) {
+  watchlistPoller.start();
+}
+
+const VALID_REGIONS: Region[] = ['americas', 'europe', 'asia'];
+const MATCH_TYPES: NonNullable<MatchIdsQuery['type']>[] = ['ranked', 'normal', 'tourney', 'tutorial'];
+const MAX_MATCH_PAGE_SIZE = 20;
+// Keep match-heavy routes within the default development budget (100 requests per 2 minutes) on a cold cache
+const MAX_CHAMPION_STATS_MATCHES = 40;
+const ACCOUNT_MASTERY_LIMIT = 5;
+const MAX_BATCH_ACCOUNTS = 20;
+const MAX_COMPARE_PLAYERS = 5;
+const MAX_COMPARE_MATCHES = 10;
+
+/**
+ * Parse an optional non-negative integer query parameter
+ * @returns The parsed number, undefined if absent, or NaN if malformed
+ */
+function parseIntParam(value: unknown): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : NaN;
+}
+
+/**
+ * Check that a route parameter looks like a PUUID (78 URL-safe base64 characters) before it reaches a Riot URL
+ */
+function isValidPuuid(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{78}$/.test(value);
+}
+
+/**
+ * Resolve a Riot ID to a PUUID, reusing the cached account profile when available
+ */
+async function resolvePuuid(riotId: string, region: Region): Promise<string> {
+  const cachedData = CacheService.getCachedAccount(riotId, region);
+  if (cachedData?.puuid) {
+    return cachedData.puuid;
+  }
+
+  const { gameName, tagLine } = RiotIdParser.parse(riotId);
+  const account = await riotClient.getAccountByRiotId(gameName, tagLine, region);
+  return account.puuid;
+}
+
+/**
+ * Resolve a Riot ID to a PUUID and the platform the player lives on,
+ * reusing the cached account profile when available
+ */
+async function resolvePlayerPlatform(riotId: string, region: Region): Promise<{ puuid: string; platform: Platform }> {
+  const cachedData = CacheService.getCachedAccount(riotId, region);
+  if (cachedData) {
+    return { puuid: cachedData.puuid, platform: cachedData.platform.summoner };
+  }
+
+  const puuid = await resolvePuuid(riotId, region);
+  const { platform } = await querySummonerAcrossPlatforms(puuid, region, riotClient);
+  return { puuid, platform };
+}
+
+/**
+ * Describe where an account profile came from and how fresh it is
+ */
+function describeCacheState(result: Omit<AccountLookupResult, 'data'>) {
+  return {
+    cached: result.cached,
+    cachedAt: new Date(result.cachedAt).toISOString(),
+    expiresAt: new Date(result.expiresAt).toISOString(),
+    ageSeconds: Math.max(0, Math.round((Date.now() - result.cachedAt) / 1000)),
+    revalidating: result.revalidating ?? false
   };
-  
+}
+
+/**
+ * Require the admin token for routes that change server state (cache purges, watchlist, webhooks)
+ * Fails closed: when ADMIN_TOKEN is not set, these routes are refused entirely
+ */
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const adminToken = config.adminToken;
+  if (!adminToken) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Set ADMIN_TOKEN to enable this route'
+    });
+    return;
+  }
+  if (req.get('X-Admin-Token') !== adminToken) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'A valid X-Admin-Token header is required'
+    });
+    return;
+  }
   next();
+}
+
+/**
+ * GET /api/account
+ * Get account information by Riot ID
+ * Query parameters: riotId (required), region (optional), platform (optional, skips platform discovery),
+ * mastery (optional, "true" to include top masteries), refresh (optional, "true" to bypass the cache),
+ * swr (optional, "true" to serve the cached profile immediately and refresh it in the background)
+ */
+app.get('/api/account', async (req, res) => {
+  try {
+    const { riotId, region = 'americas', platform } = req.query;
+    const includeMastery = req.query['mastery'] === 'true';
+
+    if (!riotId || typeof riotId !== 'string') {
+      return res.status(400).json({
+        error: 'Missing Riot ID',
+        message: 'Please provide riotId as a query parameter',
+        example: '/api/account?riotId=Faker%235555'
+      });
+    }
+
+    if (!RiotIdParser.isValid(riotId)) {
+      return res.status(400).json({
+        error: 'Invalid Riot ID format',
+        message: 'Expected format: "gameName#tagLine"',
+        received: riotId,
+        suggestion: 'Try: /api/account?riotId=Samir%232468'
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    if (platform !== undefined && !getPlatformsForRegion(region as Region).includes(platform as Platform)) {
+      return res.status(400).json({
+        error: 'Invalid platform',
+        message: `Valid platforms for ${region}: ${getPlatformsForRegion(region as Region).join(', ')}`,
+        received: platform
+      });
+    }
+    const platformOptions = platform !== undefined ? { platform: platform as Platform } : {};
+
+    const result = req.query['swr'] === 'true'
+      ? await getAccountProfileStaleWhileRevalidate(riotId, region as Region, riotClient, platformOptions)
+      : await getAccountProfile(riotId, region as Region, riotClient, { ...platformOptions, refresh: req.query['refresh'] === 'true' });
+    const profile = result.data;
+
+    const data = includeMastery
+      ? { ...profile, mastery: await getOptionalMasteryProfile(profile.puuid, profile.platform.summoner, riotClient, ACCOUNT_MASTERY_LIMIT) }
+      : profile;
+
+    return res.json({
+      success: true,
+      data,
+      ...describeCacheState(result)
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
 });
 
-//init riot client 
-const apiKey = process.env['RIOT_API_KEY'];
-if (!apiKey) {
-  console.error('❌ RIOT_API_KEY environment variable is required');
-  process.exit(1);
-}
+/**
+ * GET /api/players/:puuid
+ * Get account information by PUUID, with the same profile as /api/account plus every Riot ID seen for the player
+ * Query parameters: region (optional), platform (optional, skips platform discovery),
+ * mastery (optional, "true" to include top masteries), refresh (optional, "true" to bypass the cache)
+ */
+app.get('/api/players/:puuid', async (req, res) => {
+  try {
+    const { puuid } = req.params;
+    const { region = 'americas', platform } = req.query;
+    const includeMastery = req.query['mastery'] === 'true';
+
+    if (!isValidPuuid(puuid)) {
+      return res.status(400).json({
+        error: 'Invalid PUUID',
+        message: 'Expected a 78-character PUUID',
+        received: puuid
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    if (platform !== undefined && !getPlatformsForRegion(region as Region).includes(platform as Platform)) {
+      return res.status(400).json({
+        error: 'Invalid platform',
+        message: `Valid platforms for ${region}: ${getPlatformsForRegion(region as Region).join(', ')}`,
+        received: platform
+      });
+    }
+    const platformOptions = platform !== undefined ? { platform: platform as Platform } : {};
+
+    const result = await getAccountProfileByPuuid(puuid, region as Region, riotClient, {
+      ...platformOptions,
+      refresh: req.query['refresh'] === 'true'
+    });
+    const profile = result.data;
+
+    const data = {
+      ...profile,
+      ...(includeMastery ? { mastery: await getOptionalMasteryProfile(profile.puuid, profile.platform.summoner, riotClient, ACCOUNT_MASTERY_LIMIT) } : {}),
+      riotIdHistory: getRiotIdHistory(puuid)
+    };
+
+    return res.json({
+      success: true,
+      data,
+      ...describeCacheState(result)
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * POST /api/accounts
+ * Look up several accounts at once, e.g. a whole lobby
+ * Body: { riotIds?: string[], text?: string, region?: string }
+ * `text` may be pasted lobby chat ("Name#TAG joined the lobby" lines) or comma/newline separated Riot IDs
+ */
+app.post('/api/accounts', async (req, res) => {
+  try {
+    const { riotIds, text, region = 'americas' } = req.body ?? {};
+
+    if (riotIds !== undefined && (!Array.isArray(riotIds) || !riotIds.every(id => typeof id === 'string'))) {
+      return res.status(400).json({
+        error: 'Invalid riotIds',
+        message: 'riotIds must be an array of strings in the format "gameName#tagLine"'
+      });
+    }
+
+    if (text !== undefined && typeof text !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid text',
+        message: 'text must be a string'
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    const requested: string[] = [
+      ...(riotIds ?? []),
+      ...(text ? RiotIdParser.parseMany(text).map(riotId => RiotIdParser.format(riotId)) : [])
+    ];
+    const uniqueRiotIds = [...new Set(requested)];
+
+    if (uniqueRiotIds.length === 0) {
+      return res.status(400).json({
+        error: 'No Riot IDs',
+        message: 'Provide riotIds as an array or text containing "gameName#tagLine" entries',
+        example: { riotIds: ['Samir#2468', 'Troublemaker#0525'] }
+      });
+    }
+
+    if (uniqueRiotIds.length > MAX_BATCH_ACCOUNTS) {
+      return res.status(400).json({
+        error: 'Too many Riot IDs',
+        message: `A batch can contain at most ${MAX_BATCH_ACCOUNTS} Riot IDs`,
+        received: uniqueRiotIds.length
+      });
+    }
+
+    const results = await getAccountProfiles(uniqueRiotIds, region as Region, riotClient);
+
+    return res.json({
+      success: true,
+      data: {
+        results,
+        summary: {
+          requested: results.length,
+          succeeded: results.filter(result => result.success).length,
+          failed: results.filter(result => !result.success).length
+        }
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/compare
+ * Compare players side by side: rank, level and win rate, plus shared champions and games played
+ * together or against each other in their recent matches
+ * Query parameters: riotIds (required, 2-5 comma-separated Riot IDs), region (optional),
+ * count (optional, recent matches per player, 1 to 10, default 10)
+ */
+app.get('/api/compare', async (req, res) => {
+  try {
+    const { riotIds, region = 'americas' } = req.query;
+    const count = parseIntParam(req.query['count']) ?? MAX_COMPARE_MATCHES;
+
+    if (!riotIds || typeof riotIds !== 'string') {
+      return res.status(400).json({
+        error: 'Missing Riot IDs',
+        message: 'Please provide riotIds as a comma-separated query parameter',
+        example: '/api/compare?riotIds=Samir%232468,Troublemaker%230525'
+      });
+    }
+
+    const uniqueRiotIds = [...new Set(riotIds.split(',').map(riotId => riotId.trim()).filter(Boolean))];
+
+    if (uniqueRiotIds.length < 2 || uniqueRiotIds.length > MAX_COMPARE_PLAYERS) {
+      return res.status(400).json({
+        error: 'Invalid number of Riot IDs',
+        message: `Compare between 2 and ${MAX_COMPARE_PLAYERS} different players`,
+        received: uniqueRiotIds.length
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    if (Number.isNaN(count) || count < 1 || count > MAX_COMPARE_MATCHES) {
+      return res.status(400).json({
+        error: 'Invalid count',
+        message: `count must be between 1 and ${MAX_COMPARE_MATCHES}`,
+        received: req.query['count']
+      });
+    }
+
+    const comparison = await comparePlayers(uniqueRiotIds, region as Region, count, riotClient);
+
+    return res.json({
+      success: true,
+      data: comparison
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/mastery
+ * Get champion mastery by Riot ID with champion names resolved from Data Dragon
+ * Query parameters: riotId (required), region (optional), count (optional, all champions if omitted)
+ */
+app.get('/api/mastery', async (req, res) => {
+  try {
+    const { riotId, region = 'americas' } = req.query;
+
+    if (!riotId || typeof riotId !== 'string' || !RiotIdParser.isValid(riotId)) {
+      return res.status(400).json({
+        error: 'Invalid Riot ID format',
+        message: 'Please provide riotId as a query parameter in the format "gameName#tagLine"',
+        example: '/api/mastery?riotId=Samir%232468'
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    const count = parseIntParam(req.query['count']);
+    if (Number.isNaN(count) || count === 0) {
+      return res.status(400).json({
+        error: 'Invalid count',
+        message: 'count must be a positive integer',
+        received: req.query['count']
+      });
+    }
+
+    const { puuid, platform } = await resolvePlayerPlatform(riotId, region as Region);
+    const mastery = await getMasteryProfile(puuid, platform, riotClient, count);
+
+    return res.json({
+      success: true,
+      data: {
+        puuid,
+        ...mastery
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/live
+ * Get the player's active game with both teams, bans and each participant's ranked entries
+ * Query parameters: riotId (required), region (optional)
+ */
+app.get('/api/live', async (req, res) => {
+  try {
+    const { riotId, region = 'americas' } = req.query;
+
+    if (!riotId || typeof riotId !== 'string' || !RiotIdParser.isValid(riotId)) {
+      return res.status(400).json({
+        error: 'Invalid Riot ID format',
+        message: 'Please provide riotId as a query parameter in the format "gameName#tagLine"',
+        example: '/api/live?riotId=Samir%232468'
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    const { puuid, platform } = await resolvePlayerPlatform(riotId, region as Region);
+    const game = await riotClient.getActiveGameByPuuid(puuid, platform);
+
+    if (!game) {
+      return res.json({
+        success: true,
+        data: {
+          puuid,
+          platform,
+          inGame: false,
+          game: null
+        }
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        puuid,
+        platform,
+        inGame: true,
+        game: await buildLiveGame(game, platform, riotClient, puuid)
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/matches
+ * Get summarized recent matches by Riot ID
+ * Query parameters: riotId (required), region (optional), start, count, queue, type, startTime, endTime (optional)
+ */
+app.get('/api/matches', async (req, res) => {
+  try {
+    const { riotId, region = 'americas', type } = req.query;
+
+    if (!riotId || typeof riotId !== 'string' || !RiotIdParser.isValid(riotId)) {
+      return res.status(400).json({
+        error: 'Invalid Riot ID format',
+        message: 'Please provide riotId as a query parameter in the format "gameName#tagLine"',
+        example: '/api/matches?riotId=Samir%232468'
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    const start = parseIntParam(req.query['start']) ?? 0;
+    const count = parseIntParam(req.query['count']) ?? 10;
+    const queue = parseIntParam(req.query['queue']);
+    const startTime = parseIntParam(req.query['startTime']);
+    const endTime = parseIntParam(req.query['endTime']);
+
+    if ([start, count, queue, startTime, endTime].some(value => Number.isNaN(value))) {
+      return res.status(400).json({
+        error: 'Invalid query parameter',
+        message: 'start, count, queue, startTime and endTime must be non-negative integers'
+      });
+    }
+
+    if (count < 1 || count > MAX_MATCH_PAGE_SIZE) {
+      return res.status(400).json({
+        error: 'Invalid count',
+        message: `count must be between 1 and ${MAX_MATCH_PAGE_SIZE}`,
+        received: count
+      });
+    }
+
+    if (type !== undefined && !MATCH_TYPES.includes(type as NonNullable<MatchIdsQuery['type']>)) {
+      return res.status(400).json({
+        error: 'Invalid match type',
+        message: `Valid types: ${MATCH_TYPES.join(', ')}`,
+        received: type
+      });
+    }
+
+    const query: MatchIdsQuery = { start, count };
+    if (queue !== undefined) query.queue = queue;
+    if (startTime !== undefined) query.startTime = startTime;
+    if (endTime !== undefined) query.endTime = endTime;
+    if (type !== undefined) query.type = type as NonNullable<MatchIdsQuery['type']>;
+
+    const puuid = await resolvePuuid(riotId, region as Region);
+    const matchIds = await getMatchIds(puuid, region as Region, query, riotClient);
+    const { matches, failedMatchIds } = await getMatchesSettled(matchIds, region as Region, riotClient);
+
+    const summaries = matches
+      .map(match => summarizeMatch(match, puuid))
+      .filter(summary => summary !== null);
+
+    return res.json({
+      success: true,
+      data: {
+        puuid,
+        matches: summaries,
+        failedMatchIds,
+        pagination: {
+          start,
+          count,
+          returned: summaries.length,
+          nextStart: matchIds.length === count ? start + count : null
+        }
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/tft/account
+ * Get Teamfight Tactics profile by Riot ID: summoner level and ranked TFT, Double Up and Hyper Roll entries
+ * Query parameters: riotId (required), region (optional), platform (optional, skips platform discovery),
+ * refresh (optional, "true" to bypass the cache)
+ */
+app.get('/api/tft/account', async (req, res) => {
+  try {
+    const { riotId, region = 'americas', platform } = req.query;
+
+    if (!riotId || typeof riotId !== 'string' || !RiotIdParser.isValid(riotId)) {
+      return res.status(400).json({
+        error: 'Invalid Riot ID format',
+        message: 'Please provide riotId as a query parameter in the format "gameName#tagLine"',
+        example: '/api/tft/account?riotId=Samir%232468'
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    if (platform !== undefined && !getPlatformsForRegion(region as Region).includes(platform as Platform)) {
+      return res.status(400).json({
+        error: 'Invalid platform',
+        message: `Valid platforms for ${region}: ${getPlatformsForRegion(region as Region).join(', ')}`,
+        received: platform
+      });
+    }
+    const platformOptions = platform !== undefined ? { platform: platform as Platform } : {};
+
+    const result = await getTftProfile(riotId, region as Region, riotClient, { ...platformOptions, refresh: req.query['refresh'] === 'true' });
+
+    return res.json({
+      success: true,
+      data: result.data,
+      ...describeCacheState(result)
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/tft/matches
+ * Get summarized recent TFT matches (placement, traits, units) by Riot ID
+ * Query parameters: riotId (required), region (optional), start, count, startTime, endTime (optional)
+ */
+app.get('/api/tft/matches', async (req, res) => {
+  try {
+    const { riotId, region = 'americas' } = req.query;
+
+    if (!riotId || typeof riotId !== 'string' || !RiotIdParser.isValid(riotId)) {
+      return res.status(400).json({
+        error: 'Invalid Riot ID format',
+        message: 'Please provide riotId as a query parameter in the format "gameName#tagLine"',
+        example: '/api/tft/matches?riotId=Samir%232468'
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    const start = parseIntParam(req.query['start']) ?? 0;
+    const count = parseIntParam(req.query['count']) ?? 10;
+    const startTime = parseIntParam(req.query['startTime']);
+    const endTime = parseIntParam(req.query['endTime']);
+
+    if ([start, count, startTime, endTime].some(value => Number.isNaN(value))) {
+      return res.status(400).json({
+        error: 'Invalid query parameter',
+        message: 'start, count, startTime and endTime must be non-negative integers'
+      });
+    }
+
+    if (count < 1 || count > MAX_MATCH_PAGE_SIZE) {
+      return res.status(400).json({
+        error: 'Invalid count',
+        message: `count must be between 1 and ${MAX_MATCH_PAGE_SIZE}`,
+        received: count
+      });
+    }
+
+    const query: TftMatchIdsQuery = { start, count };
+    if (startTime !== undefined) query.startTime = startTime;
+    if (endTime !== undefined) query.endTime = endTime;
+
+    const puuid = await resolvePuuid(riotId, region as Region);
+    const matchIds = await getTftMatchIds(puuid, region as Region, query, riotClient);
+    const { matches, failedMatchIds } = await getTftMatchesSettled(matchIds, region as Region, riotClient);
+
+    const summaries = matches
+      .map(match => summarizeTftMatch(match, puuid))
+      .filter(summary => summary !== null);
+
+    return res.json({
+      success: true,
+      data: {
+        puuid,
+        matches: summaries,
+        failedMatchIds,
+        pagination: {
+          start,
+          count,
+          returned: summaries.length,
+          nextStart: matchIds.length === count ? start + count : null
+        }
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/match/:matchId
+ * Get full match details with a per-team, per-participant breakdown
+ * The regional route is derived from the match ID's platform prefix (e.g., NA1_123)
+ */
+app.get('/api/match/:matchId', async (req, res) => {
+  try {
+    const { matchId } = req.params;
+    const platform = getPlatformFromMatchId(matchId);
+
+    if (!platform) {
+      return res.status(400).json({
+        error: 'Invalid match ID',
+        message: 'Expected format: "PLATFORM_gameId"',
+        received: matchId,
+        example: '/api/match/NA1_1234567890'
+      });
+    }
+
+    const region = ApiRouting.getMatchRegionFromPlatform(platform);
+    const match = await getMatch(matchId, region, riotClient);
+
+    return res.json({
+      success: true,
+      data: buildMatchDetail(match, platform)
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/players/:puuid/champions
+ * Get per-champion and per-role performance over a player's recent matches
+ * Query parameters: region (optional), count (optional, default 20), queue (optional)
+ */
+app.get('/api/players/:puuid/champions', async (req, res) => {
+  try {
+    const { puuid } = req.params;
+    const { region = 'americas' } = req.query;
+
+    if (!isValidPuuid(puuid)) {
+      return res.status(400).json({
+        error: 'Invalid PUUID',
+        message: 'Expected a 78-character PUUID',
+        received: puuid
+      });
+    }
+
+    if (!VALID_REGIONS.includes(region as Region)) {
+      return res.status(400).json({
+        error: 'Invalid region',
+        message: 'Valid regions: americas, europe, asia',
+        received: region
+      });
+    }
+
+    const count = parseIntParam(req.query['count']) ?? 20;
+    const queue = parseIntParam(req.query['queue']);
+
+    if (Number.isNaN(count) || count < 1 || count > MAX_CHAMPION_STATS_MATCHES) {
+      return res.status(400).json({
+        error: 'Invalid count',
+        message: `count must be between 1 and ${MAX_CHAMPION_STATS_MATCHES}`,
+        received: req.query['count']
+      });
+    }
+
+    if (Number.isNaN(queue)) {
+      return res.status(400).json({
+        error: 'Invalid queue',
+        message: 'queue must be a numeric queue ID (e.g., 420)',
+        received: req.query['queue']
+      });
+    }
+
+    const options: { count: number; queue?: number } = { count };
+    if (queue !== undefined) options.queue = queue;
+
+    const stats = await getChampionStats(puuid, region as Region, options, riotClient);
+
+    return res.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * Largest leaderboard page; Riot IDs are resolved one Account V1 call per entry
+ */
+const MAX_LEADERBOARD_PAGE_SIZE = 100;
+// Riot ID resolution costs one Account V1 call per entry, so keep it well within the default development budget
+const MAX_LEADERBOARD_RIOT_ID_PAGE_SIZE = 20;
+
+/**
+ * GET /api/leaderboard
+ * Get a page of an apex tier league sorted by LP
+ * Query parameters: platform (required, e.g. "kr"), queue (optional, default RANKED_SOLO_5x5),
+ * tier (optional, challenger/grandmaster/master, default challenger), page (optional, default 1),
+ * pageSize (optional, default 50), riotIds (optional, "true" to resolve Riot IDs for the page; pageSize at most 20)
+ */
+app.get('/api/leaderboard', async (req, res) => {
+  try {
+    const { platform, queue = 'RANKED_SOLO_5x5', tier = 'challenger' } = req.query;
+    const page = parseIntParam(req.query['page']) ?? 1;
+    const pageSize = parseIntParam(req.query['pageSize']) ?? 50;
+    const platforms = Object.values(REGION_PLATFORMS).flat();
+
+    if (!platforms.includes(platform as Platform)) {
+      return res.status(400).json({
+        error: 'Invalid platform',
+        message: `Valid platforms: ${platforms.join(', ')}`,
+        received: platform
+      });
+    }
+
+    if (!LEADERBOARD_QUEUES.includes(queue as LeaderboardQueue)) {
+      return res.status(400).json({
+        error: 'Invalid queue',
+        message: `Valid queues: ${LEADERBOARD_QUEUES.join(', ')}`,
+        received: queue
+      });
+    }
+
+    if (!LEADERBOARD_TIERS.includes(tier as LeaderboardTier)) {
+      return res.status(400).json({
+        error: 'Invalid tier',
+        message: `Valid tiers: ${LEADERBOARD_TIERS.join(', ')}`,
+        received: tier
+      });
+    }
+
+    if (Number.isNaN(page) || page < 1) {
+      return res.status(400).json({
+        error: 'Invalid page',
+        message: 'page must be a positive integer',
+        received: req.query['page']
+      });
+    }
+
+    if (Number.isNaN(pageSize) || pageSize < 1 || pageSize > MAX_LEADERBOARD_PAGE_SIZE) {
+      return res.status(400).json({
+        error: 'Invalid pageSize',
+        message: `pageSize must be between 1 and ${MAX_LEADERBOARD_PAGE_SIZE}`,
+        received: req.query['pageSize']
+      });
+    }
+
+    const resolveRiotIds = req.query['riotIds'] === 'true';
+    if (resolveRiotIds && pageSize > MAX_LEADERBOARD_RIOT_ID_PAGE_SIZE) {
+      return res.status(400).json({
+        error: 'Invalid pageSize',
+        message: `pageSize must be at most ${MAX_LEADERBOARD_RIOT_ID_PAGE_SIZE} when riotIds=true`,
+        received: req.query['pageSize'] ?? pageSize
+      });
+    }
+
+    const leaderboard = await getLeaderboard({
+      platform: platform as Platform,
+      queue: queue as LeaderboardQueue,
+      tier: tier as LeaderboardTier,
+      page,
+      pageSize,
+      resolveRiotIds
+    }, riotClient);
+
+    return res.json({
+      success: true,
+      data: leaderboard
+    });
+
+  } catch (error) {
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * GET /api/players/:puuid/rank-history
+ * Get the recorded rank snapshots for a queue with LP deltas, promotions and demotions
+ * Snapshots are recorded whenever the player's league entries are fetched (account lookups, live games)
+ * Query parameters: queue (optional, default RANKED_SOLO_5x5)
+ */
+app.get('/api/players/:puuid/rank-history', (req, res) => {
+  const { puuid } = req.params;
+  const { queue = 'RANKED_SOLO_5x5' } = req.query;
+
+  if (!isValidPuuid(puuid)) {
+    return res.status(400).json({
+      error: 'Invalid PUUID',
+      message: 'Expected a 78-character PUUID',
+      received: puuid
+    });
+  }
+
+  if (typeof queue !== 'string' || !/^[A-Z0-9_]+$/i.test(queue)) {
+    return res.status(400).json({
+      error: 'Invalid queue',
+      message: 'queue must be a league queue type (e.g., RANKED_SOLO_5x5, RANKED_FLEX_SR)',
+      received: queue
+    });
+  }
 
-const riotClient = new RiotClient(apiKey);
+  return res.json({
+    success: true,
+    data: getRankHistory(puuid, queue)
+  });
+});
 
 /**
- * GET /api/account
- * Get account information by Riot ID
- * Query parameters: riotId (required), region (optional)
+ * GET /api/watchlist
+ * List watched players with their last polled state
  */
-app.get('/api/account', async (req, res) => {
-  try {
-    const { riotId, region = 'americas' } = req.query;
-
-    if (!riotId || typeof riotId !== 'string') {
-      return res.status(400).json({
-        error: 'Missing Riot ID',
-        message: 'Please provide riotId as a query parameter',
-        example: '/api/account?riotId=Faker%235555'
-      });
+app.get('/api/watchlist', (req, res) => {
+  const players = getWatchedPlayers();
+  return res.json({
+    success: true,
+    data: {
+      players,
+      polling: {
+        enabled: watchlistPoller.isRunning(),
+        intervalSeconds: config.watchlist.pollIntervalSeconds,
+        maxPlayers: config.watchlist.maxPlayers
+      }
     }
+  });
+});
 
-    console.log('🔍 GET /api/account - Request received');
-    console.log('📥 Query params:', req.query);
-    console.log('📥 Received riotId:', riotId);
+/**
+ * POST /api/watchlist
+ * Add a player to the watchlist
+ * Body: { riotId: "gameName#tagLine", region?: "americas" }
+ */
+app.post('/api/watchlist', requireAdmin, async (req, res) => {
+  try {
+    const { riotId, region = 'americas' } = req.body ?? {};
 
-    if (!RiotIdParser.isValid(riotId)) {
+    if (typeof riotId !== 'string' || !RiotIdParser.isValid(riotId)) {
       return res.status(400).json({
         error: 'Invalid Riot ID format',
         message: 'Expected format: "gameName#tagLine"',
-        received: riotId,
-        suggestion: 'Try: /api/account?riotId=Samir%232468'
+        received: riotId
       });
     }
 
-    const { gameName, tagLine } = RiotIdParser.parse(riotId);
-
-    const validRegions = ['americas', 'europe', 'asia'];
-    if (!validRegions.includes(region as string)) {
+    if (!VALID_REGIONS.includes(region as Region)) {
       return res.status(400).json({
         error: 'Invalid region',
         message: 'Valid regions: americas, europe, asia',
@@ -91,200 +1065,446 @@ app.get('/api/account', async (req, res) => {
       });
     }
 
-    // Check cache first
-    const cacheKey = `${riotId}:${region}`;
-    const cachedData = CacheService.getCachedAccount(riotId, region as string);
-    
-    if (cachedData) {
-      console.log('✅ Cache HIT for account:', cacheKey);
-      return res.json({
-        success: true,
-        data: cachedData,
-        cached: true
-      });
-    }
-
-    console.log('❌ Cache MISS for account:', cacheKey);
-
-    //Get PUUID
-    const account = await riotClient.getAccountByRiotId(gameName, tagLine, region as string);
-    console.log('📥 Account response:', JSON.stringify(account, null, 2));
-
-    // Get Summoner info across all platforms in parallel
-    console.log('🔄 Querying summoner data across all platforms for region:', region);
-    const summonerResult = await querySummonerAcrossPlatforms(account.puuid, region as any, riotClient);
-    const summonerInfo = summonerResult.data;
-    console.log('📥 Summoner response from platform', summonerResult.platform, ':', JSON.stringify(summonerInfo, null, 2));
-
-    // Get league entries (ranked stats) across all platforms in parallel
-    let leagueEntries: LeagueEntryDto[] = [];
-    let soloDuo: LeagueEntryDto | null = null;
-    let flex: LeagueEntryDto | null = null;
-    let leagueResult: any = null;
-    
-    try {
-      const encryptedPUUID = summonerInfo.puuid;
-      console.log('🔄 Querying league entries across all platforms for region:', region);
-      
-      leagueResult = await queryLeagueEntriesAcrossPlatforms(encryptedPUUID, region as any, riotClient);
-      leagueEntries = leagueResult.data;
-      console.log('📥 League entries response from platform', leagueResult.platform, ':', JSON.stringify(leagueEntries, null, 2));
-      console.log('🔍 League entries length:', leagueEntries.length);
-
-      // Process league entries to separate Solo/Duo and Flex
-      soloDuo = leagueEntries.find(entry => entry.queueType === 'RANKED_SOLO_5x5') || null;
-      flex = leagueEntries.find(entry => entry.queueType === 'RANKED_FLEX_SR') || null;
-      console.log('🔍 Processed soloDuo:', soloDuo ? 'found' : 'null');
-      console.log('🔍 Processed flex:', flex ? 'found' : 'null');
-    } catch (error: unknown) {
-      console.log('⚠️ League-V4 API not available on any platform:', (error as Error).message);
-    }
-
-    const responseData = {
-      puuid: account.puuid,
-      gameName: account.gameName,
-      tagLine: account.tagLine,
-
-      summonerInfo: {
-        id: summonerInfo.id || summonerInfo.puuid, // Use puuid as fallback for id
-        accountId: summonerInfo.accountId || summonerInfo.puuid, // Use puuid as fallback
-        puuid: summonerInfo.puuid,
-        name: summonerInfo.name || account.gameName, // Use account gameName as fallback
-        profileIconId: summonerInfo.profileIconId,
-        summonerLevel: summonerInfo.summonerLevel,
-        revisionDate: summonerInfo.revisionDate
-      },
-      
-      // Ranked stats
-      rankedStats: {
-        soloDuo: soloDuo ? {
-          tier: soloDuo.tier,
-          rank: soloDuo.rank,
-          leaguePoints: soloDuo.leaguePoints,
-          wins: soloDuo.wins,
-          losses: soloDuo.losses,
-          winRate: Math.round((soloDuo.wins / (soloDuo.wins + soloDuo.losses)) * 100)
-        } : null,
-        flex: flex ? {
-          tier: flex.tier,
-          rank: flex.rank,
-          leaguePoints: flex.leaguePoints,
-          wins: flex.wins,
-          losses: flex.losses,
-          winRate: Math.round((flex.wins / (flex.wins + flex.losses)) * 100)
-        } : null
-      },
-      
-      // Platform info
-      platform: {
-        summoner: summonerResult.platform,
-        league: leagueResult ? leagueResult.platform : 'none'
-      }
-    };
-
-    // Cache the response
-    CacheService.cacheAccount(riotId, region as string, responseData);
-    console.log('💾 Cached account data for:', cacheKey);
+    const { player, added } = await addWatchedPlayer(riotId, region as Region, riotClient, config.watchlist.maxPlayers);
 
-    return res.json({
+    return res.status(added ? 201 : 200).json({
       success: true,
-      data: responseData,
-      cached: false
+      data: { player, added }
     });
 
   } catch (error) {
+    if (error instanceof WatchlistFullError) {
+      return res.status(409).json({
+        error: 'Watchlist full',
+        message: error.message
+      });
+    }
     return handleApiError(error, res);
   }
 });
 
 /**
- * GET /api/icon/:iconId
- * Get profile icon from Data Dragon with caching
+ * GET /api/watchlist/changes
+ * Get changes detected by polling, most recent first
+ * Query parameters: puuid (optional), since (optional, epoch milliseconds), limit (optional, default 100)
  */
-app.get('/api/icon/:iconId', async (req, res) => {
+app.get('/api/watchlist/changes', (req, res) => {
+  const { puuid } = req.query;
+  const since = parseIntParam(req.query['since']);
+  const limit = parseIntParam(req.query['limit']) ?? 100;
+
+  if (Number.isNaN(since)) {
+    return res.status(400).json({
+      error: 'Invalid since',
+      message: 'since must be a timestamp in epoch milliseconds',
+      received: req.query['since']
+    });
+  }
+
+  if (Number.isNaN(limit) || limit < 1 || limit > 1000) {
+    return res.status(400).json({
+      error: 'Invalid limit',
+      message: 'limit must be between 1 and 1000',
+      received: req.query['limit']
+    });
+  }
+
+  const options: { puuid?: string; since?: number; limit: number } = { limit };
+  if (typeof puuid === 'string') options.puuid = puuid;
+  if (since !== undefined) options.since = since;
+
+  return res.json({
+    success: true,
+    data: getWatchlistChanges(options)
+  });
+});
+
+/**
+ * GET /api/watchlist/:puuid
+ * Get a watched player with their recent changes
+ */
+app.get('/api/watchlist/:puuid', (req, res) => {
+  const player = getWatchedPlayer(req.params.puuid);
+
+  if (!player) {
+    return res.status(404).json({
+      error: 'Not watched',
+      message: 'This player is not on the watchlist'
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: {
+      player,
+      changes: getWatchlistChanges({ puuid: player.puuid, limit: 20 })
+    }
+  });
+});
+
+/**
+ * DELETE /api/watchlist/:puuid
+ * Remove a player from the watchlist
+ */
+app.delete('/api/watchlist/:puuid', requireAdmin, (req, res) => {
+  const { puuid } = req.params as { puuid: string };
+
+  if (!removeWatchedPlayer(puuid)) {
+    return res.status(404).json({
+      error: 'Not watched',
+      message: 'This player is not on the watchlist'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Player removed from the watchlist'
+  });
+});
+
+/**
+ * Minimum length of a webhook signing secret
+ */
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
   try {
-    const { iconId } = req.params;
-    
-    if (!iconId || isNaN(Number(iconId))) {
-      return res.status(400).json({
-        error: 'Invalid icon ID',
-        message: 'Icon ID must be a number'
-      });
-    }
-
-    // Check cache first
-    const cachedIconData = CacheService.getCachedIcon(Number(iconId));
-    
-    if (cachedIconData) {
-      console.log('✅ Cache HIT for icon:', iconId);
-      res.set({
-        'Content-Type': 'image/png',
-        'Cache-Control': 'public, max-age=86400',
-        'Access-Control-Allow-Origin': '*'
-      });
-      res.send(cachedIconData);
-      return;
-    }
-
-    console.log('❌ Cache MISS for icon:', iconId);
-
-    // Get latest Data Dragon version
-    let dataDragonVersion = '14.18.1';
-    try {
-      const versionResponse = await fetch('https://ddragon.leagueoflegends.com/api/versions.json');
-      const versions = await versionResponse.json() as string[];
-      dataDragonVersion = versions[0] || '14.18.1';
-    } catch (error) {
-      console.log('⚠️ Failed to fetch Data Dragon version, using fallback:', dataDragonVersion);
-    }
-
-    // Try multiple versions for better reliability
-    const versions = [dataDragonVersion, '15.18.1', '14.18.1', '14.17.1', '14.16.1'];
-    
-    for (const version of versions) {
-      try {
-        const iconUrl = `https://ddragon.leagueoflegends.com/cdn/${version}/img/profileicon/${iconId}.png`;
-        const iconResponse = await fetch(iconUrl);
-        
-        if (iconResponse.ok) {
-          // Get the image data as buffer
-          const imageBuffer = await iconResponse.arrayBuffer();
-          const imageData = Buffer.from(imageBuffer);
-          
-          // Cache the image data
-          CacheService.cacheIcon(Number(iconId), imageData);
-          console.log('💾 Cached icon data for:', iconId);
-          
-          // Set appropriate headers for caching
-          res.set({
-            'Content-Type': 'image/png',
-            'Cache-Control': 'public, max-age=86400', // Cache for 24 hours
-            'Access-Control-Allow-Origin': '*'
-          });
-          
-          // Send the image data
-          res.send(imageData);
-          return;
-        }
-      } catch (error) {
-        console.log(`⚠️ Failed to fetch icon with version ${version}:`, (error as Error).message);
-        continue;
-      }
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET /api/webhooks
+ * List webhook subscriptions (secrets are never returned)
+ */
+app.get('/api/webhooks', requireAdmin, (req, res) => {
+  return res.json({
+    success: true,
+    data: getWebhooks()
+  });
+});
+
+/**
+ * POST /api/webhooks
+ * Subscribe a URL to player events
+ * Body: { url, events: ["rank.promoted", ...], secret, puuids?: [...] }
+ */
+app.post('/api/webhooks', requireAdmin, async (req, res) => {
+  const { url, events, secret, puuids } = req.body ?? {};
+
+  if (!isHttpUrl(url)) {
+    return res.status(400).json({
+      error: 'Invalid URL',
+      message: 'url must be an http or https URL',
+      received: url
+    });
+  }
+
+  if (!Array.isArray(events) || events.length === 0 || !events.every(event => PLAYER_EVENT_TYPES.includes(event))) {
+    return res.status(400).json({
+      error: 'Invalid events',
+      message: `events must be a non-empty array of: ${PLAYER_EVENT_TYPES.join(', ')}`,
+      received: events
+    });
+  }
+
+  if (typeof secret !== 'string' || secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+    return res.status(400).json({
+      error: 'Invalid secret',
+      message: `secret must be a string of at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`
+    });
+  }
+
+  if (puuids !== undefined && puuids !== null && (!Array.isArray(puuids) || !puuids.every(puuid => typeof puuid === 'string'))) {
+    return res.status(400).json({
+      error: 'Invalid puuids',
+      message: 'puuids must be an array of PUUIDs',
+      received: puuids
+    });
+  }
+
+  try {
+    const subscription = await createWebhook({ url, events: events as PlayerEventType[], secret, puuids: puuids ?? null });
+    return res.status(201).json({
+      success: true,
+      data: subscription
+    });
+  } catch (error) {
+    if (error instanceof WebhookDestinationError) {
+      return res.status(400).json({
+        error: 'Invalid URL',
+        message: error.message,
+        received: url
+      });
     }
+    return handleApiError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Remove a webhook subscription
+ */
+app.delete('/api/webhooks/:id', requireAdmin, (req, res) => {
+  const { id } = req.params as { id: string };
+
+  if (!deleteWebhook(id)) {
+    return res.status(404).json({
+      error: 'Webhook not found',
+      message: 'No webhook subscription has this ID'
+    });
+  }
+
+  return res.json({
+    success: true,
+    message: 'Webhook deleted'
+  });
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Delivery log for a subscription, most recent first
+ * Query parameters: limit (optional, default 50)
+ */
+app.get('/api/webhooks/:id/deliveries', requireAdmin, (req, res) => {
+  const { id } = req.params as { id: string };
+  const limit = parseIntParam(req.query['limit']) ?? 50;
+
+  if (Number.isNaN(limit) || limit < 1 || limit > 1000) {
+    return res.status(400).json({
+      error: 'Invalid limit',
+      message: 'limit must be between 1 and 1000',
+      received: req.query['limit']
+    });
+  }
 
-    // If all versions fail, return 404
+  if (!getWebhook(id)) {
     return res.status(404).json({
-      error: 'Icon not found',
-      message: `Profile icon ${iconId} not found in any Data Dragon version`
+      error: 'Webhook not found',
+      message: 'No webhook subscription has this ID'
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: getWebhookDeliveries(id, limit)
+  });
+});
+
+/**
+ * Static data types served by /api/static, mapped to their section of the static data set
+ */
+const STATIC_DATA_TYPES = {
+  champions: 'champions',
+  items: 'items',
+  spells: 'summonerSpells',
+  runes: 'runes'
+} as const;
+
+/**
+ * GET /api/static/version
+ * Get the current Data Dragon patch and the configured fallback versions
+ */
+app.get('/api/static/version', async (req, res) => {
+  return res.json({
+    success: true,
+    data: {
+      version: await getLatestVersion(),
+      fallbackVersions: getFallbackVersions()
+    }
+  });
+});
+
+/**
+ * GET /api/static/:type/:id
+ * Look up a champion, item, summoner spell, rune or queue by numeric ID
+ * Query parameters: locale (optional, e.g. ko_KR), version (optional, defaults to the current patch)
+ */
+app.get('/api/static/:type/:id', async (req, res) => {
+  const { type, id } = req.params;
+  const { locale = config.dataDragon.locale, version } = req.query;
+  const numericId = parseIntParam(id);
+
+  if (type !== 'queues' && !Object.hasOwn(STATIC_DATA_TYPES, type)) {
+    return res.status(400).json({
+      error: 'Invalid static data type',
+      message: `Valid types: ${[...Object.keys(STATIC_DATA_TYPES), 'queues'].join(', ')}`,
+      received: type
+    });
+  }
+
+  if (numericId === undefined || Number.isNaN(numericId)) {
+    return res.status(400).json({
+      error: 'Invalid ID',
+      message: 'ID must be a non-negative integer',
+      received: id
+    });
+  }
+
+  if (typeof locale !== 'string' || !isValidLocale(locale)) {
+    return res.status(400).json({
+      error: 'Invalid locale',
+      message: 'Expected a Data Dragon locale (e.g., en_US, ko_KR)',
+      received: locale
+    });
+  }
+
+  if (version !== undefined && (typeof version !== 'string' || !/^\d+\.\d+\.\d+$/.test(version))) {
+    return res.status(400).json({
+      error: 'Invalid version',
+      message: 'Expected a patch version (e.g., 14.18.1)',
+      received: version
     });
+  }
+
+  try {
+    const entry = type === 'queues'
+      ? await getQueueById(numericId)
+      : (await getStaticData(locale, version))[STATIC_DATA_TYPES[type as keyof typeof STATIC_DATA_TYPES]][numericId] ?? null;
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `No ${type} entry with ID ${numericId}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: entry
+    });
+
+  } catch (error) {
+    if (error instanceof StaticDataNotFoundError) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: error.message
+      });
+    }
+    logger.warn('Static data lookup failed', { type, locale, version, error });
+    return res.status(502).json({
+      error: 'Data Dragon unavailable',
+      message: 'Static data could not be loaded from Data Dragon'
+    });
+  }
+});
+
+/**
+ * Send an image asset with caching headers, answering 304 when the client's ETag still matches
+ * Assets pinned to a patch never change, so they are marked immutable
+ */
+async function sendAsset(req: express.Request, res: express.Response, request: AssetRequest) {
+  try {
+    const asset = await getAsset(request);
+    const maxAge = request.version ? 31536000 : config.assets.maxAgeSeconds;
+
+    res.set({
+      'Content-Type': asset.contentType,
+      'Cache-Control': request.version ? `public, max-age=${maxAge}, immutable` : `public, max-age=${maxAge}`,
+      'ETag': asset.etag,
+      'Access-Control-Allow-Origin': '*'
+    });
+    if (asset.version) {
+      res.set('X-Data-Dragon-Version', asset.version);
+    }
+
+    if (req.get('If-None-Match')?.split(',').some(tag => tag.trim() === asset.etag)) {
+      return res.status(304).end();
+    }
+    return res.send(asset.data);
 
   } catch (error) {
-    console.error('Icon fetch error:', error);
+    if (error instanceof AssetNotFoundError) {
+      return res.status(404).json({
+        error: 'Asset not found',
+        message: error.message
+      });
+    }
+    if (error instanceof AssetUnavailableError) {
+      return res.status(502).json({
+        error: 'Asset upstream unavailable',
+        message: error.message
+      });
+    }
+    logger.error('Asset fetch error', { kind: request.kind, id: request.id, error });
     return res.status(500).json({
       error: 'Internal server error',
-      message: 'Failed to fetch profile icon'
+      message: 'Failed to fetch asset'
+    });
+  }
+}
+
+/**
+ * GET /api/assets/:kind/:id
+ * Get a Data Dragon image: profileicon, champion (square), splash, loading, item, spell or rune
+ * Query parameters: version (optional, pins the patch), skin (optional, splash and loading art only)
+ */
+app.get('/api/assets/:kind/:id', async (req, res) => {
+  const { kind, id } = req.params;
+  const { version } = req.query;
+  const numericId = parseIntParam(id);
+  const skin = parseIntParam(req.query['skin']);
+
+  if (!(ASSET_KINDS as readonly string[]).includes(kind)) {
+    return res.status(400).json({
+      error: 'Invalid asset kind',
+      message: `Valid kinds: ${ASSET_KINDS.join(', ')}`,
+      received: kind
+    });
+  }
+
+  if (numericId === undefined || Number.isNaN(numericId)) {
+    return res.status(400).json({
+      error: 'Invalid asset ID',
+      message: 'Asset ID must be a non-negative integer',
+      received: id
+    });
+  }
+
+  if (version !== undefined && (typeof version !== 'string' || !/^\d+\.\d+\.\d+$/.test(version))) {
+    return res.status(400).json({
+      error: 'Invalid version',
+      message: 'Expected a patch version (e.g., 14.18.1)',
+      received: version
+    });
+  }
+
+  if (Number.isNaN(skin)) {
+    return res.status(400).json({
+      error: 'Invalid skin',
+      message: 'skin must be a non-negative integer',
+      received: req.query['skin']
+    });
+  }
+
+  const request: AssetRequest = { kind: kind as AssetKind, id: numericId };
+  if (version !== undefined) request.version = version;
+  if (skin !== undefined) request.skin = skin;
+
+  return sendAsset(req, res, request);
+});
+
+/**
+ * GET /api/icon/:iconId
+ * Get profile icon from Data Dragon with caching
+ */
+app.get('/api/icon/:iconId', async (req, res) => {
+  const { iconId } = req.params;
+
+  if (!iconId || isNaN(Number(iconId))) {
+    return res.status(400).json({
+      error: 'Invalid icon ID',
+      message: 'Icon ID must be a number'
     });
   }
+
+  return sendAsset(req, res, { kind: 'profileicon', id: Number(iconId) });
 });
 
 /**
@@ -293,11 +1513,11 @@ app.get('/api/icon/:iconId', async (req, res) => {
  */
 app.get('/api/debug', (req, res) => {
   res.json({
-    message: 'Debug endpoint - check server console for detailed logs',
+    message: 'Debug endpoint - set LOG_LEVEL=debug and check the server logs',
     instructions: [
       '1. Make a request to /api/account?riotId=Samir%232468',
-      '2. Watch the server console for detailed logs',
-      '3. You\'ll see the Riot API request/response details'
+      '2. Watch the server logs, filtering by the X-Request-Id response header',
+      '3. You\'ll see each Riot API call with its endpoint, status and duration'
     ],
     testUrl: '/api/account?riotId=Samir%232468',
     note: 'This follows REST conventions - GET for retrieving data, just like the Riot API'
@@ -324,6 +1544,7 @@ app.get('/api/cache/stats', (req, res) => {
   
   res.json({
     cache: {
+      backend: CacheService.getBackendName(),
       keys: stats.keys,
       hits: stats.hits,
       misses: stats.misses,
@@ -332,6 +1553,84 @@ app.get('/api/cache/stats', (req, res) => {
       keyCount: keys.length,
       sampleKeys: keys.slice(0, 10) // Show first 10 keys as sample
     },
+    matches: CacheService.getMatchCacheStats(),
+    assets: getAssetCacheStats(),
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/cache/account (remove a cached account profile)
+ * Query parameters: riotId (required), region (optional, all regions if omitted)
+ */
+app.delete('/api/cache/account', requireAdmin, (req, res) => {
+  const { riotId, region } = req.query;
+
+  if (!riotId || typeof riotId !== 'string') {
+    return res.status(400).json({
+      error: 'Missing Riot ID',
+      message: 'Please provide riotId as a query parameter',
+      example: '/api/cache/account?riotId=Samir%232468&region=americas'
+    });
+  }
+
+  if (region !== undefined && !VALID_REGIONS.includes(region as Region)) {
+    return res.status(400).json({
+      error: 'Invalid region',
+      message: 'Valid regions: americas, europe, asia',
+      received: region
+    });
+  }
+
+  const deleted = CacheService.clearCachedAccount(riotId, region as string | undefined);
+  return res.json({
+    success: true,
+    deleted
+  });
+});
+
+/**
+ * DELETE /api/cache (purge cache entries by key prefix)
+ * Query parameters: prefix (required, e.g. "account:" or "match:")
+ */
+app.delete('/api/cache', requireAdmin, (req, res) => {
+  const { prefix } = req.query;
+
+  if (!prefix || typeof prefix !== 'string') {
+    return res.status(400).json({
+      error: 'Missing prefix',
+      message: 'Please provide a key prefix as a query parameter',
+      example: '/api/cache?prefix=account:'
+    });
+  }
+
+  const deleted = CacheService.delByPrefix(prefix);
+  return res.json({
+    success: true,
+    prefix,
+    deleted
+  });
+});
+
+/**
+ * GET /api/rate-limits (Riot API rate limit bucket state)
+ */
+app.get('/api/rate-limits', (req, res) => {
+  res.json({
+    rateLimits: riotClient.getRateLimitState(),
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/coalescing (request coalescing metrics)
+ */
+app.get('/api/coalescing', (req, res) => {
+  res.json({
+    coalescing: {
+      riotApi: riotClient.getCoalescingStats(),
+      accountLookups: getAccountCoalescingStats()
+    },
     timestamp: new Date().toISOString()
   });
 });
@@ -348,8 +1647,36 @@ app.get('/', (req, res) => {
     endpoints: {
       'GET /api/health': 'Health check',
       'GET /api/account?riotId=gameName%23tagLine': 'Get account by Riot ID',
+      'GET /api/players/:puuid': 'Get account by PUUID with previous Riot IDs',
+      'POST /api/accounts': 'Look up several accounts by Riot ID or pasted lobby text',
+      'GET /api/compare?riotIds=A%23X,B%23Y': 'Compare players: rank, level, win rate, shared champions and head-to-head games',
+      'GET /api/mastery?riotId=gameName%23tagLine': 'Get champion mastery by Riot ID',
+      'GET /api/live?riotId=gameName%23tagLine': 'Get the player\'s active game',
+      'GET /api/matches?riotId=gameName%23tagLine': 'Get summarized recent matches by Riot ID',
+      'GET /api/tft/account?riotId=gameName%23tagLine': 'Get TFT profile with ranked TFT, Double Up and Hyper Roll entries',
+      'GET /api/tft/matches?riotId=gameName%23tagLine': 'Get recent TFT placements, traits and units by Riot ID',
+      'GET /api/match/:matchId': 'Get full match details grouped by team',
+      'GET /api/players/:puuid/champions': 'Get per-champion performance over recent matches',
+      'GET /api/players/:puuid/rank-history?queue=RANKED_SOLO_5x5': 'Get recorded LP and rank history',
+      'GET /api/leaderboard?platform=kr&queue=RANKED_SOLO_5x5&tier=challenger': 'Get an apex tier leaderboard sorted by LP',
+      'GET /api/watchlist': 'List watched players',
+      'POST /api/watchlist': 'Add a player to the watchlist',
+      'GET /api/watchlist/changes': 'Get rank, level and new-game changes found by polling',
+      'GET /api/watchlist/:puuid': 'Get a watched player and their recent changes',
+      'DELETE /api/watchlist/:puuid': 'Remove a player from the watchlist',
+      'GET /api/webhooks': 'List webhook subscriptions (admin)',
+      'POST /api/webhooks': 'Subscribe a URL to signed player event deliveries (admin)',
+      'DELETE /api/webhooks/:id': 'Remove a webhook subscription (admin)',
+      'GET /api/webhooks/:id/deliveries': 'Get the delivery log of a webhook subscription (admin)',
+      'GET /api/static/version': 'Get the current Data Dragon patch',
+      'GET /api/static/:type/:id': 'Look up a champion, item, spell, rune or queue by ID',
+      'GET /api/assets/:kind/:id': 'Get a champion, item, spell, rune or profile icon image',
       'GET /api/icon/:iconId': 'Get profile icon from Data Dragon',
       'GET /api/cache/stats': 'Get cache statistics',
+      'DELETE /api/cache/account?riotId=gameName%23tagLine': 'Remove a cached account profile',
+      'DELETE /api/cache?prefix=account:': 'Purge cache entries by key prefix',
+      'GET /api/rate-limits': 'Get Riot API rate limit bucket state',
+      'GET /api/coalescing': 'Get request coalescing metrics',
       'GET /api/debug': 'Debug endpoint with instructions'
     },
     examples: {
@@ -367,7 +1694,7 @@ app.get('/', (req, res) => {
 });
 
 app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', error);
+  logger.error('Unhandled error', { error });
   res.status(500).json({
     error: 'Internal server error',
     message: 'An unexpected error occurred'
@@ -384,10 +1711,11 @@ app.use((req, res) => {
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 LoL Stats Checker API running on port ${PORT}`);
-  console.log(`📖 API Documentation: http://localhost:${PORT}`);
-  console.log(`🔍 Health Check: http://localhost:${PORT}/api/health`);
-  console.log(`🎮 Example: http://localhost:${PORT}/api/account?riotId=Faker#5555`);
+  logger.info('LoL Stats Checker API running', {
+    port: PORT,
+    documentation: `http://localhost:${PORT}`,
+    healthCheck: `http://localhost:${PORT}/api/health`
+  });
 });
 
 export default app;
@@ -0,0 +1,380 @@
+/**
+ * Account service
+ * Resolves a Riot ID into the full account profile (account, summoner, ranked stats) with caching
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import type { LeagueEntryDto, Platform, Region } from '../types/index.js';
+import { RiotIdParser } from '../utils/riot-id-parser.js';
+import {
+  querySummonerAcrossPlatforms,
+  queryLeagueEntriesAcrossPlatforms
+} from '../utils/parallel-queries.js';
+import type { PlatformQueryOptions, PlatformQueryResult } from '../utils/parallel-queries.js';
+import { CacheService, CacheKeys, CacheTTL } from './cache.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import type { SingleFlightStats } from '../utils/single-flight.js';
+import { toErrorResponse } from '../api/error-handler.js';
+import type { ErrorResponse } from '../api/error-handler.js';
+import { createLogger } from '../utils/logger.js';
+import { recordLeagueEntries } from './rank-history.js';
+import { observeSummonerLevel } from './player-events.js';
+import { recordRiotId } from './riot-id-history.js';
+import { getLeagueQueueName } from './matches.js';
+import { getWinRate, getRankProgress } from '../utils/rank.js';
+import type { RankProgress } from '../utils/rank.js';
+
+const logger = createLogger('account');
+
+export interface RankedQueueStats extends RankProgress {
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+/**
+ * A league entry with every League-V4 field preserved, plus its display name and win rate
+ */
+export interface RankedQueueEntry extends LeagueEntryDto, RankProgress {
+  queueName: string;
+  winRate: number;
+}
+
+export interface AccountProfile {
+  puuid: string;
+  gameName: string;
+  tagLine: string;
+  summonerInfo: {
+    id: string;
+    accountId: string;
+    puuid: string;
+    name: string;
+    profileIconId: number;
+    summonerLevel: number;
+    revisionDate: number;
+  };
+  /** Solo/Duo and Flex only, kept for existing clients; see queues for every queue */
+  rankedStats: {
+    soloDuo: RankedQueueStats | null;
+    flex: RankedQueueStats | null;
+  };
+  /** Every league entry, keyed by queue type (e.g., RANKED_SOLO_5x5, CHERRY) */
+  queues: Record<string, RankedQueueEntry>;
+  platform: {
+    summoner: Platform;
+    league: Platform | 'none';
+  };
+}
+
+export interface AccountLookupOptions extends PlatformQueryOptions {
+  /** Bypass the cache and repopulate it with fresh data */
+  refresh?: boolean;
+}
+
+export interface AccountLookupResult {
+  data: AccountProfile;
+  cached: boolean;
+  /** When the profile was fetched from Riot (epoch milliseconds) */
+  cachedAt: number;
+  /** When the cached profile expires (epoch milliseconds) */
+  expiresAt: number;
+  /** Whether a background refresh was started (stale-while-revalidate) */
+  revalidating?: boolean;
+}
+
+export type BatchAccountResult =
+  | { riotId: string; success: true; data: AccountProfile; cached: boolean; cachedAt: string; expiresAt: string }
+  | { riotId: string; success: false; status: number; error: ErrorResponse['body'] };
+
+/**
+ * Maximum concurrent account lookups in a batch; the RiotClient rate limiter still queues individual calls
+ */
+const BATCH_CONCURRENCY = 3;
+
+/**
+ * Cached profiles younger than this are served without a background refresh in stale-while-revalidate mode
+ */
+const REVALIDATE_AFTER_MS = 60000;
+
+/**
+ * Account resolutions in progress, shared by identical concurrent lookups
+ */
+const lookups = new SingleFlight();
+
+/**
+ * Background refreshes in progress, keyed by Riot ID and region
+ */
+const revalidations = new SingleFlight();
+
+/**
+ * Record the Riot ID Account V1 returned for a PUUID; after a rename, drop profiles cached under the old Riot ID
+ */
+function trackRiotId(puuid: string, riotId: string): void {
+  const previous = recordRiotId(puuid, riotId);
+  if (previous) {
+    const cleared = CacheService.clearCachedAccount(previous);
+    CacheService.set(CacheKeys.riotId(puuid), riotId, CacheTTL.riotId);
+    logger.info('Riot ID change detected', { puuid, cleared });
+  }
+}
+
+function toRankedQueueStats(entry: LeagueEntryDto | null): RankedQueueStats | null {
+  if (!entry) {
+    return null;
+  }
+  return {
+    tier: entry.tier,
+    rank: entry.rank,
+    leaguePoints: entry.leaguePoints,
+    wins: entry.wins,
+    losses: entry.losses,
+    winRate: getWinRate(entry.wins, entry.losses),
+    ...getRankProgress(entry)
+  };
+}
+
+function toRankedQueueEntry(entry: LeagueEntryDto): RankedQueueEntry {
+  return {
+    ...entry,
+    queueName: getLeagueQueueName(entry.queueType),
+    winRate: getWinRate(entry.wins, entry.losses),
+    ...getRankProgress(entry)
+  };
+}
+
+/**
+ * Get the account profile for a Riot ID, serving it from the account cache when possible
+ * Identical concurrent lookups share one resolution
+ * @param riotId - Riot ID in format "gameName#tagLine"
+ * @param region - Region for Account V1 and platform discovery
+ * @param riotClient - Riot API client
+ * @param options - Optional explicit platform to skip discovery, or refresh to bypass the cache
+ * @returns Account profile, whether it came from the cache, and when it was cached and expires
+ */
+export async function getAccountProfile(
+  riotId: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: AccountLookupOptions = {}
+): Promise<AccountLookupResult> {
+  const key = [riotId, region, options.platform ?? '', options.refresh ? 'refresh' : ''].join(':');
+  return lookups.do(key, () => resolveAccountProfile(riotId, region, riotClient, options));
+}
+
+/**
+ * Get request coalescing metrics for account lookups
+ */
+export function getAccountCoalescingStats(): SingleFlightStats {
+  return lookups.getStats();
+}
+
+async function resolveAccountProfile(
+  riotId: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: AccountLookupOptions
+): Promise<AccountLookupResult> {
+  const { gameName, tagLine } = RiotIdParser.parse(riotId);
+  const { refresh, ...platformOptions } = options;
+
+  // Check cache first
+  const cacheKey = `${riotId}:${region}`;
+  const cachedEntry = refresh ? undefined : CacheService.getCachedAccountEntry(riotId, region);
+
+  if (cachedEntry) {
+    logger.debug('Account cache hit', { cacheKey });
+    return { data: cachedEntry.data, cached: true, cachedAt: cachedEntry.cachedAt, expiresAt: cachedEntry.expiresAt };
+  }
+
+  logger.debug(refresh ? 'Forced account refresh' : 'Account cache miss', { cacheKey });
+
+  //Get PUUID
+  const account = await riotClient.getAccountByRiotId(gameName, tagLine, region);
+
+  // Get Summoner info from the known or requested platform, discovering it across the region if needed
+  const summonerResult = await querySummonerAcrossPlatforms(account.puuid, region, riotClient, platformOptions);
+  const summonerInfo = summonerResult.data;
+  trackRiotId(account.puuid, RiotIdParser.format({ gameName: account.gameName, tagLine: account.tagLine }));
+  observeSummonerLevel(account.puuid, summonerInfo.summonerLevel);
+  logger.debug('Summoner found', { platform: summonerResult.platform, summonerLevel: summonerInfo.summonerLevel });
+
+  // Get league entries (ranked stats)
+  let leagueEntries: LeagueEntryDto[] = [];
+  let soloDuo: LeagueEntryDto | null = null;
+  let flex: LeagueEntryDto | null = null;
+  let leagueResult: PlatformQueryResult<LeagueEntryDto[]> | null = null;
+
+  try {
+    const encryptedPUUID = summonerInfo.puuid;
+
+    // League entries live on the same platform as the summoner
+    leagueResult = await queryLeagueEntriesAcrossPlatforms(encryptedPUUID, region, riotClient, {
+      platform: summonerResult.platform
+    });
+    leagueEntries = leagueResult.data;
+    recordLeagueEntries(account.puuid, leagueEntries);
+    logger.debug('League entries found', { platform: leagueResult.platform, entries: leagueEntries.length });
+
+    // Process league entries to separate Solo/Duo and Flex
+    soloDuo = leagueEntries.find(entry => entry.queueType === 'RANKED_SOLO_5x5') || null;
+    flex = leagueEntries.find(entry => entry.queueType === 'RANKED_FLEX_SR') || null;
+  } catch (error: unknown) {
+    logger.warn('League-V4 API not available on any platform', { error });
+  }
+
+  const responseData: AccountProfile = {
+    puuid: account.puuid,
+    gameName: account.gameName,
+    tagLine: account.tagLine,
+
+    summonerInfo: {
+      id: summonerInfo.id || summonerInfo.puuid, // Use puuid as fallback for id
+      accountId: summonerInfo.accountId || summonerInfo.puuid, // Use puuid as fallback
+      puuid: summonerInfo.puuid,
+      name: summonerInfo.name || account.gameName, // Use account gameName as fallback
+      profileIconId: summonerInfo.profileIconId,
+      summonerLevel: summonerInfo.summonerLevel,
+      revisionDate: summonerInfo.revisionDate
+    },
+
+    // Ranked stats
+    rankedStats: {
+      soloDuo: toRankedQueueStats(soloDuo),
+      flex: toRankedQueueStats(flex)
+    },
+    queues: Object.fromEntries(leagueEntries.map(entry => [entry.queueType, toRankedQueueEntry(entry)])),
+
+    // Platform info
+    platform: {
+      summoner: summonerResult.platform,
+      league: leagueResult ? leagueResult.platform : 'none'
+    }
+  };
+
+  // Cache the response
+  CacheService.cacheAccount(riotId, region, responseData);
+  logger.debug('Cached account data', { cacheKey });
+
+  const cachedAt = Date.now();
+  return {
+    data: responseData,
+    cached: false,
+    cachedAt,
+    expiresAt: CacheService.getCachedAccountEntry(riotId, region)?.expiresAt ?? cachedAt + CacheTTL.account * 1000
+  };
+}
+
+/**
+ * Get the account profile in stale-while-revalidate mode
+ * A cached profile is returned immediately; if it is older than a minute, a background
+ * refresh repopulates the cache for the next request. Without a cached profile this is a normal lookup.
+ * @param riotId - Riot ID in format "gameName#tagLine"
+ * @param region - Region for Account V1 and platform discovery
+ * @param riotClient - Riot API client
+ * @param options - Optional explicit platform to skip discovery
+ * @returns Account profile, with revalidating set when a background refresh was started
+ */
+export async function getAccountProfileStaleWhileRevalidate(
+  riotId: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: PlatformQueryOptions = {}
+): Promise<AccountLookupResult> {
+  const result = await getAccountProfile(riotId, region, riotClient, options);
+  if (!result.cached || Date.now() - result.cachedAt < REVALIDATE_AFTER_MS) {
+    return { ...result, revalidating: false };
+  }
+
+  const key = `${riotId}:${region}`;
+  if (!revalidations.has(key)) {
+    logger.info('Revalidating account in background', { key });
+    revalidations.do(key, () => getAccountProfile(riotId, region, riotClient, { ...options, refresh: true }))
+      .catch((error: Error) => logger.warn('Background account refresh failed', { key, error }));
+  }
+
+  return { ...result, revalidating: true };
+}
+
+/**
+ * Resolve several Riot IDs concurrently, reporting success or failure per entry
+ * Uses the same cache entries as single account lookups
+ * @param riotIds - Riot IDs in format "gameName#tagLine"
+ * @param region - Region for Account V1 and platform discovery
+ * @param riotClient - Riot API client
+ * @returns One result per Riot ID, in the same order
+ */
+export async function getAccountProfiles(
+  riotIds: string[],
+  region: Region,
+  riotClient: RiotClient
+): Promise<BatchAccountResult[]> {
+  return mapWithConcurrency(riotIds, BATCH_CONCURRENCY, async (riotId): Promise<BatchAccountResult> => {
+    if (!RiotIdParser.isValid(riotId)) {
+      return {
+        riotId,
+        success: false,
+        status: 400,
+        error: {
+          error: 'Invalid Riot ID format',
+          message: 'Expected format: "gameName#tagLine"'
+        }
+      };
+    }
+
+    try {
+      const { data, cached, cachedAt, expiresAt } = await getAccountProfile(riotId, region, riotClient);
+      return { riotId, success: true, data, cached, cachedAt: new Date(cachedAt).toISOString(), expiresAt: new Date(expiresAt).toISOString() };
+    } catch (error) {
+      logger.warn('Batch lookup failed', { riotId, error });
+      const { status, body } = toErrorResponse(error);
+      return { riotId, success: false, status, error: body };
+    }
+  });
+}
+
+/**
+ * Get a player's current Riot ID from their PUUID via Account V1, cached per PUUID
+ * @param puuid - Player's PUUID
+ * @param region - Region for Account V1
+ * @param riotClient - Riot API client
+ * @returns Riot ID in format "gameName#tagLine"
+ */
+export async function getRiotIdByPuuid(puuid: string, region: Region, riotClient: RiotClient): Promise<string> {
+  const cacheKey = CacheKeys.riotId(puuid);
+  const cached = CacheService.get<string>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const account = await riotClient.getAccountByPuuid(puuid, region);
+  const riotId = RiotIdParser.format({ gameName: account.gameName, tagLine: account.tagLine });
+  trackRiotId(puuid, riotId);
+  CacheService.set(cacheKey, riotId, CacheTTL.riotId);
+  return riotId;
+}
+
+/**
+ * Get the account profile for a PUUID, resolving its current Riot ID via Account V1
+ * The profile is cached under the Riot ID, so it is shared with lookups by Riot ID
+ * @param puuid - Player's PUUID
+ * @param region - Region for Account V1 and platform discovery
+ * @param riotClient - Riot API client
+ * @param options - Optional explicit platform to skip discovery, or refresh to bypass the caches
+ * @returns Account profile, whether it came from the cache, and when it was cached and expires
+ */
+export async function getAccountProfileByPuuid(
+  puuid: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: AccountLookupOptions = {}
+): Promise<AccountLookupResult> {
+  if (options.refresh) {
+    CacheService.del(CacheKeys.riotId(puuid));
+  }
+  const riotId = await getRiotIdByPuuid(puuid, region, riotClient);
+  return getAccountProfile(riotId, region, riotClient, options);
+}
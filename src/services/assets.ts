@@ -0,0 +1,211 @@
+/**
+ * Asset service
+ * Fetches Data Dragon images (profile icons, champion squares and art, items, summoner spells, runes)
+ * with patch pinning, from a configured bundle or the CDN, cached in a byte-bounded LRU of their own
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getLatestVersion, getStaticData, getDataDragonOptions, StaticDataNotFoundError } from './data-dragon.js';
+import { createLogger } from '../utils/logger.js';
+import { LruCache } from '../utils/lru-cache.js';
+import type { LruCacheStats } from '../utils/lru-cache.js';
+
+const logger = createLogger('assets');
+
+const DATA_DRAGON_CDN_URL = 'https://ddragon.leagueoflegends.com/cdn';
+
+export const ASSET_KINDS = ['profileicon', 'champion', 'splash', 'loading', 'item', 'spell', 'rune'] as const;
+export type AssetKind = typeof ASSET_KINDS[number];
+
+export interface AssetRequest {
+  kind: AssetKind;
+  id: number;
+  /** Patch to pin to (defaults to the current patch) */
+  version?: string;
+  /** Skin number for splash and loading art (defaults to 0, the base skin) */
+  skin?: number;
+}
+
+export interface Asset {
+  data: Buffer;
+  contentType: string;
+  /** Strong ETag derived from the image bytes */
+  etag: string;
+  /** Patch the asset was resolved against, omitted for rune icons and splash and loading art (not versioned) */
+  version?: string;
+}
+
+export interface AssetCacheOptions {
+  /** Total size of cached images before the least recently used are evicted */
+  maxBytes: number;
+  /** How long an image stays cached, in seconds */
+  ttlSeconds: number;
+}
+
+/**
+ * The asset ID is unknown, or Data Dragon has no image for it
+ */
+export class AssetNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetNotFoundError';
+  }
+}
+
+/**
+ * Data Dragon could not be reached or answered with an error
+ */
+export class AssetUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetUnavailableError';
+  }
+}
+
+/**
+ * Image cache bounded by total bytes, kept apart from the API data cache (64 MB, 24 hours by default)
+ */
+const assetCache = new LruCache<Asset>(64 * 1024 * 1024, asset => asset.data.length);
+let assetCacheTtlSeconds = 86400;
+
+/**
+ * Apply the image cache configuration; cached images are dropped
+ */
+export function configureAssetCache(options: AssetCacheOptions): void {
+  assetCache.resize(options.maxBytes);
+  assetCacheTtlSeconds = options.ttlSeconds;
+}
+
+/**
+ * Image cache statistics (size is in bytes)
+ */
+export function getAssetCacheStats(): LruCacheStats {
+  return assetCache.getStats();
+}
+
+function getContentType(file: string): string {
+  return file.endsWith('.jpg') ? 'image/jpeg' : 'image/png';
+}
+
+/**
+ * Resolve an asset request to its path below the Data Dragon CDN root (e.g., 14.18.1/img/item/1001.png)
+ * @throws AssetNotFoundError if the ID is not known on the patch
+ */
+async function resolveAssetPath(request: AssetRequest, version: string): Promise<string> {
+  const { kind, id, skin = 0 } = request;
+
+  if (kind === 'profileicon' || kind === 'item') {
+    return `${version}/img/${kind}/${id}.png`;
+  }
+
+  const staticData = await getStaticData(undefined, version);
+
+  if (kind === 'spell') {
+    const spell = staticData.summonerSpells[id];
+    if (!spell) {
+      throw new AssetNotFoundError(`Unknown summoner spell ${id} on patch ${version}`);
+    }
+    return `${version}/img/spell/${spell.image}`;
+  }
+
+  if (kind === 'rune') {
+    const rune = staticData.runes[id];
+    if (!rune) {
+      throw new AssetNotFoundError(`Unknown rune ${id} on patch ${version}`);
+    }
+    // Rune icons are not versioned
+    return `img/${rune.icon}`;
+  }
+
+  const champion = staticData.champions[id];
+  if (!champion) {
+    throw new AssetNotFoundError(`Unknown champion ${id} on patch ${version}`);
+  }
+  if (kind === 'champion') {
+    return `${version}/img/champion/${champion.image}`;
+  }
+  // Splash and loading art are not versioned
+  return `img/champion/${kind}/${champion.key}_${skin}.jpg`;
+}
+
+/**
+ * Read an asset from the bundle if it is there, otherwise from the CDN
+ * @throws AssetNotFoundError on an upstream 404, AssetUnavailableError on network errors, timeouts or server errors
+ */
+async function loadAssetBytes(assetPath: string): Promise<Buffer> {
+  const { bundlePath, timeoutMs } = getDataDragonOptions();
+  if (bundlePath) {
+    const filePath = path.join(bundlePath, assetPath);
+    if (fs.existsSync(filePath)) {
+      return fs.promises.readFile(filePath);
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${DATA_DRAGON_CDN_URL}/${assetPath}`, { signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    logger.warn('Data Dragon asset request failed', { assetPath, error });
+    throw new AssetUnavailableError('Data Dragon could not be reached');
+  }
+
+  // Data Dragon answers 403 for missing files as well as 404
+  if (response.status === 404 || response.status === 403) {
+    throw new AssetNotFoundError(`Data Dragon has no asset at ${assetPath}`);
+  }
+  if (!response.ok) {
+    throw new AssetUnavailableError(`Data Dragon responded with ${response.status}`);
+  }
+  try {
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    // The timeout also covers reading the body
+    logger.warn('Data Dragon asset download failed', { assetPath, error });
+    throw new AssetUnavailableError('Data Dragon could not be reached');
+  }
+}
+
+/**
+ * Get an image asset, serving it from the asset cache when possible
+ * @param request - Asset kind, numeric ID, and optional patch and skin
+ * @returns Image bytes with content type, ETag and the patch they belong to (for versioned assets)
+ * @throws AssetNotFoundError if the asset does not exist, AssetUnavailableError if Data Dragon is down
+ */
+export async function getAsset(request: AssetRequest): Promise<Asset> {
+  const version = request.version ?? await getLatestVersion();
+
+  let assetPath: string;
+  try {
+    assetPath = await resolveAssetPath(request, version);
+  } catch (error) {
+    if (error instanceof AssetNotFoundError) {
+      throw error;
+    }
+    if (error instanceof StaticDataNotFoundError) {
+      throw new AssetNotFoundError(`Unknown patch ${version}`);
+    }
+    // Static data for the patch could not be loaded
+    logger.warn('Failed to load static data for asset', { kind: request.kind, version, error });
+    throw new AssetUnavailableError('Data Dragon static data could not be loaded');
+  }
+
+  const cached = assetCache.get(assetPath);
+  if (cached) {
+    return cached;
+  }
+
+  const data = await loadAssetBytes(assetPath);
+  const asset: Asset = {
+    data,
+    contentType: getContentType(assetPath),
+    etag: `"${createHash('sha1').update(data).digest('hex')}"`
+  };
+  // Unversioned paths are shared by every patch, so they do not report one
+  if (assetPath.startsWith(`${version}/`)) {
+    asset.version = version;
+  }
+  assetCache.set(assetPath, asset, assetCacheTtlSeconds);
+  return asset;
+}
@@ -0,0 +1,352 @@
+/**
+ * Cache backends
+ * In-memory (node-cache) and file-backed stores behind a common interface used by CacheService
+ */
+
+import fs from 'fs';
+import path from 'path';
+import NodeCache from 'node-cache';
+import { createLogger } from '../utils/logger.js';
+import { onShutdown } from '../utils/shutdown.js';
+
+const logger = createLogger('cache');
+
+export interface CacheStats {
+  keys: number;
+  hits: number;
+  misses: number;
+}
+
+export interface CacheBackend {
+  /** Backend name reported in cache stats */
+  readonly name: string;
+  get<T>(key: string): T | undefined;
+  /** Store a value for ttl seconds */
+  set<T>(key: string, value: T, ttl: number): boolean;
+  del(key: string): number;
+  /** When the entry expires, in epoch milliseconds, or undefined if it is not cached */
+  getExpiry(key: string): number | undefined;
+  keys(): string[];
+  getStats(): CacheStats;
+  /** Persist pending writes, if the backend has any */
+  flush(): void;
+  /** Persist pending writes and stop background timers; the backend must not be used afterwards */
+  close(): void;
+}
+
+export interface CacheBackendOptions {
+  /** Maximum number of keys before new entries are rejected (memory) or the soonest-expiring entries are evicted (file) */
+  maxKeys: number;
+  /** How often expired entries are purged, in seconds */
+  checkPeriod: number;
+}
+
+/**
+ * Process-local cache backed by node-cache
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private _cache: NodeCache;
+
+  constructor(options: CacheBackendOptions) {
+    this._cache = new NodeCache({
+      checkperiod: options.checkPeriod,
+      useClones: false,
+      maxKeys: options.maxKeys
+    });
+  }
+
+  get<T>(key: string): T | undefined {
+    return this._cache.get<T>(key);
+  }
+
+  set<T>(key: string, value: T, ttl: number): boolean {
+    try {
+      return this._cache.set(key, value, ttl);
+    } catch (error) {
+      // node-cache throws ECACHEFULL once maxKeys is reached
+      logger.warn('Cache full, not caching', { key });
+      return false;
+    }
+  }
+
+  del(key: string): number {
+    return this._cache.del(key);
+  }
+
+  getExpiry(key: string): number | undefined {
+    return this._cache.getTtl(key) || undefined;
+  }
+
+  keys(): string[] {
+    return this._cache.keys();
+  }
+
+  getStats(): CacheStats {
+    const { keys, hits, misses } = this._cache.getStats();
+    return { keys, hits, misses };
+  }
+
+  flush(): void {
+    // Nothing to persist
+  }
+
+  close(): void {
+    this._cache.close();
+  }
+}
+
+interface FileCacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const BUFFER_TAG = '__buffer';
+
+/**
+ * JSON replacer that stores Buffers as base64 (Buffer.toJSON has already run when this sees them)
+ */
+function replacer(_key: string, value: any): any {
+  if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+    return { [BUFFER_TAG]: Buffer.from(value.data).toString('base64') };
+  }
+  return value;
+}
+
+function reviver(_key: string, value: any): any {
+  if (value && typeof value === 'object' && typeof value[BUFFER_TAG] === 'string') {
+    return Buffer.from(value[BUFFER_TAG], 'base64');
+  }
+  return value;
+}
+
+/**
+ * One line of the cache log: a stored entry, or a deletion when value and expiresAt are absent
+ */
+interface FileCacheRecord {
+  key: string;
+  value?: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * The log is compacted once it holds this many lines and more than twice as many lines as live entries
+ */
+const COMPACT_MIN_LINES = 1000;
+
+/**
+ * Cache kept in memory and persisted to an append-only log file (one JSON record per line), so entries survive restarts
+ * Changed entries are appended in debounced batches rather than rewriting the whole store; the log is
+ * compacted to the live entries only once superseded lines outnumber them, and pending records are
+ * written synchronously when the process exits (including on SIGINT and SIGTERM)
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+  private _entries = new Map<string, FileCacheEntry>();
+  private _hits = 0;
+  private _misses = 0;
+  private _pending: string[] = [];
+  private _logLines = 0;
+  private _writeTimer: NodeJS.Timeout | null = null;
+  private _purgeTimer: NodeJS.Timeout;
+  private _removeShutdownHook: () => void;
+
+  constructor(private _filePath: string, private _options: CacheBackendOptions, private _writeDelayMs: number = 1000) {
+    this._load();
+
+    this._purgeTimer = setInterval(() => this._purgeExpired(), _options.checkPeriod * 1000);
+    this._purgeTimer.unref();
+    this._removeShutdownHook = onShutdown(() => this.flush());
+  }
+
+  get<T>(key: string): T | undefined {
+    const entry = this._entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this._entries.delete(key);
+      }
+      this._misses++;
+      return undefined;
+    }
+    this._hits++;
+    return entry.value as T;
+  }
+
+  set<T>(key: string, value: T, ttl: number): boolean {
+    if (!this._entries.has(key) && this._entries.size >= this._options.maxKeys) {
+      this._purgeExpired();
+      this._evictSoonestExpiring();
+    }
+    const entry = { value, expiresAt: Date.now() + ttl * 1000 };
+    this._entries.set(key, entry);
+    this._append({ key, ...entry });
+    return true;
+  }
+
+  del(key: string): number {
+    const deleted = this._entries.delete(key);
+    if (deleted) {
+      this._append({ key });
+    }
+    return deleted ? 1 : 0;
+  }
+
+  getExpiry(key: string): number | undefined {
+    const entry = this._entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.expiresAt : undefined;
+  }
+
+  keys(): string[] {
+    const now = Date.now();
+    return [...this._entries].filter(([, entry]) => entry.expiresAt > now).map(([key]) => key);
+  }
+
+  getStats(): CacheStats {
+    return { keys: this.keys().length, hits: this._hits, misses: this._misses };
+  }
+
+  flush(): void {
+    if (this._writeTimer) {
+      clearTimeout(this._writeTimer);
+      this._writeTimer = null;
+    }
+    if (this._pending.length === 0) {
+      return;
+    }
+
+    if (this._logLines >= COMPACT_MIN_LINES && this._logLines > this._entries.size * 2) {
+      this._compact();
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this._filePath), { recursive: true });
+      fs.appendFileSync(this._filePath, this._pending.join('\n') + '\n');
+      this._pending = [];
+    } catch (error) {
+      logger.error('Failed to write cache file', { filePath: this._filePath, error });
+    }
+  }
+
+  close(): void {
+    clearInterval(this._purgeTimer);
+    this._removeShutdownHook();
+    this.flush();
+  }
+
+  private _load(): void {
+    if (!fs.existsSync(this._filePath)) {
+      return;
+    }
+
+    let skipped = 0;
+    try {
+      for (const line of fs.readFileSync(this._filePath, 'utf8').split('\n')) {
+        if (!line) {
+          continue;
+        }
+        this._logLines++;
+        try {
+          const record = JSON.parse(line, reviver) as FileCacheRecord;
+          if (typeof record.key !== 'string') {
+            skipped++;
+          } else if (record.expiresAt === undefined) {
+            this._entries.delete(record.key);
+          } else {
+            this._entries.set(record.key, { value: record.value, expiresAt: record.expiresAt });
+          }
+        } catch {
+          // A write cut short by a crash leaves a partial last line
+          skipped++;
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to read cache file, starting empty', { filePath: this._filePath, error });
+      this._entries.clear();
+      return;
+    }
+
+    this._purgeExpired();
+    logger.info('Loaded cache entries from file', { filePath: this._filePath, entries: this._entries.size, skipped });
+    if (skipped > 0 || (this._logLines >= COMPACT_MIN_LINES && this._logLines > this._entries.size * 2)) {
+      this._compact();
+    }
+  }
+
+  private _append(record: FileCacheRecord): void {
+    this._pending.push(JSON.stringify(record, replacer));
+    this._logLines++;
+    this._scheduleWrite();
+  }
+
+  /**
+   * Rewrite the log with one line per live entry
+   */
+  private _compact(): void {
+    this._purgeExpired();
+    const lines = [...this._entries].map(([key, entry]) => JSON.stringify({ key, ...entry }, replacer));
+
+    try {
+      fs.mkdirSync(path.dirname(this._filePath), { recursive: true });
+      const tmpPath = `${this._filePath}.tmp`;
+      fs.writeFileSync(tmpPath, lines.length > 0 ? lines.join('\n') + '\n' : '');
+      fs.renameSync(tmpPath, this._filePath);
+      this._pending = [];
+      this._logLines = lines.length;
+    } catch (error) {
+      logger.error('Failed to compact cache file', { filePath: this._filePath, error });
+    }
+  }
+
+  private _scheduleWrite(): void {
+    if (this._writeTimer) {
+      return;
+    }
+    this._writeTimer = setTimeout(() => this.flush(), this._writeDelayMs);
+    this._writeTimer.unref();
+  }
+
+  private _purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this._entries) {
+      if (entry.expiresAt <= now) {
+        this._entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Evicted entries are logged as deletions so they do not come back on the next load
+   */
+  private _evictSoonestExpiring(): void {
+    let soonestKey: string | null = null;
+    let soonest = Infinity;
+    for (const [key, entry] of this._entries) {
+      if (entry.expiresAt < soonest) {
+        soonest = entry.expiresAt;
+        soonestKey = key;
+      }
+    }
+    if (soonestKey !== null) {
+      this._entries.delete(soonestKey);
+      this._append({ key: soonestKey });
+    }
+  }
+}
+
+/**
+ * Create the cache backend selected by configuration
+ * @param type - Backend type ("memory" or "file")
+ * @param options - Backend options, plus the file path for the file backend
+ * @returns Cache backend instance
+ */
+export function createCacheBackend(type: string, options: CacheBackendOptions & { filePath: string }): CacheBackend {
+  switch (type) {
+    case 'memory':
+      return new MemoryCacheBackend(options);
+    case 'file':
+      return new FileCacheBackend(options.filePath, options);
+    default:
+      throw new Error(`Unknown cache backend "${type}". Expected "memory" or "file"`);
+  }
+}
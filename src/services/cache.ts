@@ -1,34 +1,88 @@
 /**
  * Cache service for storing API responses
- * Uses node-cache for in-memory caching with TTL support
+ * Delegates to a pluggable backend (in-memory node-cache by default, or a persistent file store) with TTL support
  */
 
-import NodeCache from 'node-cache';
+import { MemoryCacheBackend, createCacheBackend } from './cache-backend.js';
+import type { CacheBackend, CacheStats } from './cache-backend.js';
+import type { MatchDto } from '../types/match.js';
+import type { TftMatchDto } from '../types/tft.js';
+import type { Platform } from '../types/common.js';
+import type { AccountProfile } from './account.js';
+import { DEFAULT_CACHE_CONFIG, DEFAULT_CACHE_TTL } from '../config/index.js';
+import type { AppConfig, CacheTTLConfig } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { LruCache } from '../utils/lru-cache.js';
+import type { LruCacheStats } from '../utils/lru-cache.js';
 
-const cacheConfig = {
-  stdTTL: 300, 
-  checkperiod: 60, 
-  useClones: false, 
-  maxKeys: 1000 
-};
+const logger = createLogger('cache');
 
-const cache = new NodeCache(cacheConfig);
+let cache: CacheBackend = new MemoryCacheBackend({ maxKeys: DEFAULT_CACHE_CONFIG.maxKeys, checkPeriod: DEFAULT_CACHE_CONFIG.checkPeriod });
+
+/**
+ * Match payloads are large and long-lived, so they get their own bounded LRU store instead of
+ * sharing the backend's key budget with accounts, platforms and Data Dragon data
+ */
+const matchCache = new LruCache<MatchDto | TftMatchDto>(DEFAULT_CACHE_CONFIG.matchMaxEntries);
 
 export const CacheKeys = {
   account: (riotId: string, region: string) => `account:${riotId}:${region}`,
-  icon: (iconId: number) => `icon:${iconId}`
+  matchIds: (puuid: string, region: string, query: string) => `matchIds:${puuid}:${region}:${query}`,
+  match: (matchId: string) => `match:${matchId}`,
+  mastery: (puuid: string, platform: string) => `mastery:${puuid}:${platform}`,
+  ddragonVersion: () => 'ddragon:version',
+  ddragonStatic: (version: string, locale: string) => `ddragon:static:${version}:${locale}`,
+  ddragonQueues: () => 'ddragon:queues',
+  platform: (puuid: string) => `platform:${puuid}`,
+  leaderboard: (platform: string, queue: string, tier: string) => `leaderboard:${platform}:${queue}:${tier}`,
+  riotId: (puuid: string) => `riotId:${puuid}`,
+  tftAccount: (riotId: string, region: string) => `tftAccount:${riotId}:${region}`,
+  tftMatchIds: (puuid: string, region: string, query: string) => `tftMatchIds:${puuid}:${region}:${query}`,
+  tftMatch: (matchId: string) => `tftMatch:${matchId}`
 };
 
-// Cache TTL values (in seconds)
-export const CacheTTL = {
-  account: 86400, //24 hrs
-  icon: 86400 
-};
+// Cache TTL values (in seconds), overridable through configuration
+export const CacheTTL: CacheTTLConfig = { ...DEFAULT_CACHE_TTL };
+
+interface CachedAccount {
+  data: AccountProfile;
+  cachedAt: number;
+}
 
 /**
  * Cache service class
  */
 export class CacheService {
+  /**
+   * Replace the cache backend (e.g., with a persistent store selected by configuration)
+   * The previous backend is flushed and closed; its entries are not carried over
+   */
+  static useBackend(backend: CacheBackend): void {
+    cache.close();
+    cache = backend;
+  }
+
+  /**
+   * Apply the cache configuration: switch to the configured backend and override TTLs
+   * @param options - Cache section of the runtime configuration
+   */
+  static configure(options: AppConfig['cache']): void {
+    Object.assign(CacheTTL, options.ttl);
+    matchCache.resize(options.matchMaxEntries);
+    this.useBackend(createCacheBackend(options.backend, {
+      maxKeys: options.maxKeys,
+      checkPeriod: options.checkPeriod,
+      filePath: options.filePath
+    }));
+  }
+
+  /**
+   * Get the name of the active cache backend
+   */
+  static getBackendName(): string {
+    return cache.name;
+  }
+
   /**
    * Get data from cache
    */
@@ -40,13 +94,40 @@ export class CacheService {
    * Set data in cache with TTL
    */
   static set<T>(key: string, data: T, ttl?: number): boolean {
-    return cache.set(key, data, ttl || cacheConfig.stdTTL);
+    return cache.set(key, data, ttl || CacheTTL.default);
+  }
+
+  /**
+   * Delete data from cache
+   */
+  static del(key: string): number {
+    return cache.del(key);
+  }
+
+  /**
+   * Delete every entry whose key starts with the given prefix
+   * @returns Number of deleted entries
+   */
+  static delByPrefix(prefix: string): number {
+    const deletedMatches = matchCache.keys()
+      .filter(key => key.startsWith(prefix))
+      .reduce((deleted, key) => deleted + matchCache.del(key), 0);
+    return this.getKeys()
+      .filter(key => key.startsWith(prefix))
+      .reduce((deleted, key) => deleted + this.del(key), deletedMatches);
+  }
+
+  /**
+   * Get when an entry expires, in epoch milliseconds
+   */
+  static getExpiry(key: string): number | undefined {
+    return cache.getExpiry(key);
   }
 
   /**
    * Get cache statistics
    */
-  static getStats() {
+  static getStats(): CacheStats {
     return cache.getStats();
   }
 
@@ -58,43 +139,130 @@ export class CacheService {
   }
 
   /**
-   * Cache account data
+   * Cache account data, recording when it was cached
    */
-  static cacheAccount(riotId: string, region: string, data: any): boolean {
+  static cacheAccount(riotId: string, region: string, data: AccountProfile): boolean {
     const key = CacheKeys.account(riotId, region);
-    return this.set(key, data, CacheTTL.account);
+    return this.set<CachedAccount>(key, { data, cachedAt: Date.now() }, CacheTTL.account);
   }
 
   /**
    * Get cached account data
    */
-  static getCachedAccount(riotId: string, region: string): any | undefined {
+  static getCachedAccount(riotId: string, region: string): AccountProfile | undefined {
+    return this.getCachedAccountEntry(riotId, region)?.data;
+  }
+
+  /**
+   * Get cached account data with when it was cached and when it expires (epoch milliseconds)
+   */
+  static getCachedAccountEntry(riotId: string, region: string): (CachedAccount & { expiresAt: number }) | undefined {
     const key = CacheKeys.account(riotId, region);
-    return this.get(key);
+    const entry = this.get<CachedAccount>(key);
+    if (!entry) {
+      return undefined;
+    }
+    return { ...entry, expiresAt: this.getExpiry(key) ?? entry.cachedAt + CacheTTL.account * 1000 };
   }
 
   /**
-   * Cache profile icon
+   * Remove cached account data for a Riot ID, in one region or all of them
+   * Without a region, entries cached under any capitalisation of the Riot ID are removed too
+   * @returns Number of deleted entries
    */
-  static cacheIcon(iconId: number, data: any): boolean {
-    const key = CacheKeys.icon(iconId);
-    return this.set(key, data, CacheTTL.icon);
+  static clearCachedAccount(riotId: string, region?: string): number {
+    if (region) {
+      return this.del(CacheKeys.account(riotId, region));
+    }
+    const prefix = CacheKeys.account(riotId, '').toLowerCase();
+    return this.getKeys()
+      .filter(key => key.toLowerCase().startsWith(prefix))
+      .reduce((deleted, key) => deleted + this.del(key), 0);
   }
 
   /**
-   * Get cached profile icon
+   * Remember the platform a PUUID lives on
    */
-  static getCachedIcon(iconId: number): any | undefined {
-    const key = CacheKeys.icon(iconId);
-    return this.get(key);
+  static cachePlatform(puuid: string, platform: Platform): boolean {
+    const key = CacheKeys.platform(puuid);
+    return this.set(key, platform, CacheTTL.platform);
+  }
+
+  /**
+   * Get the remembered platform for a PUUID
+   */
+  static getCachedPlatform(puuid: string): Platform | undefined {
+    const key = CacheKeys.platform(puuid);
+    return this.get<Platform>(key);
+  }
+
+  /**
+   * Forget the remembered platform for a PUUID
+   */
+  static clearCachedPlatform(puuid: string): number {
+    return this.del(CacheKeys.platform(puuid));
+  }
+
+  /**
+   * Cache a page of match IDs for a player
+   */
+  static cacheMatchIds(puuid: string, region: string, query: string, data: string[]): boolean {
+    const key = CacheKeys.matchIds(puuid, region, query);
+    return this.set(key, data, CacheTTL.matchIds);
+  }
+
+  /**
+   * Get a cached page of match IDs for a player
+   */
+  static getCachedMatchIds(puuid: string, region: string, query: string): string[] | undefined {
+    const key = CacheKeys.matchIds(puuid, region, query);
+    return this.get<string[]>(key);
+  }
+
+  /**
+   * Cache match details
+   */
+  static cacheMatch(matchId: string, data: MatchDto): void {
+    matchCache.set(CacheKeys.match(matchId), data, CacheTTL.match);
+  }
+
+  /**
+   * Get cached match details
+   */
+  static getCachedMatch(matchId: string): MatchDto | undefined {
+    return matchCache.get(CacheKeys.match(matchId)) as MatchDto | undefined;
+  }
+
+  /**
+   * Cache TFT match details
+   */
+  static cacheTftMatch(matchId: string, data: TftMatchDto): void {
+    matchCache.set(CacheKeys.tftMatch(matchId), data, CacheTTL.match);
+  }
+
+  /**
+   * Get cached TFT match details
+   */
+  static getCachedTftMatch(matchId: string): TftMatchDto | undefined {
+    return matchCache.get(CacheKeys.tftMatch(matchId)) as TftMatchDto | undefined;
+  }
+
+  /**
+   * Get statistics for the match store, which is kept apart from the backend
+   */
+  static getMatchCacheStats(): LruCacheStats {
+    return matchCache.getStats();
   }
 }
 
 setInterval(() => {
-  const stats = cache.getStats();
+  const stats = CacheService.getStats();
   if (stats.keys > 0) {
-    console.log(`📊 Cache Stats: ${stats.keys} keys, ${stats.hits} hits, ${stats.misses} misses, ${(stats.hits / (stats.hits + stats.misses) * 100).toFixed(1)}% hit rate`);
+    logger.info('Cache stats', { ...stats, hitRate: Number((stats.hits / (stats.hits + stats.misses) * 100).toFixed(1)) });
   }
 }, 60000); 
 
-export default cache;
+/**
+ * The active cache store (a live binding, so it follows useBackend)
+ */
+export { cache as default };
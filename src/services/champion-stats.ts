@@ -0,0 +1,219 @@
+/**
+ * Champion stats service
+ * Aggregates a player's recent matches into per-champion and per-role performance
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import type { MatchDto, MatchIdsQuery, Region } from '../types/index.js';
+import { getMatchIds, getMatchesSettled } from './matches.js';
+
+export interface PerformanceStats {
+  games: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  averageKills: number;
+  averageDeaths: number;
+  averageAssists: number;
+  kda: number;
+  csPerMinute: number;
+  damageShare: number;
+  killParticipation: number;
+}
+
+export interface ChampionPerformance extends PerformanceStats {
+  championId: number;
+  championName: string;
+  roles: Record<string, PerformanceStats>;
+}
+
+export interface ChampionStatsResult {
+  puuid: string;
+  region: Region;
+  queue: number | null;
+  gamesAnalyzed: number;
+  /** Matches skipped because they could not be fetched */
+  matchesFailed: number;
+  champions: ChampionPerformance[];
+  roles: Record<string, PerformanceStats>;
+}
+
+/**
+ * Running totals for a group of games
+ */
+interface Accumulator {
+  games: number;
+  wins: number;
+  kills: number;
+  deaths: number;
+  assists: number;
+  cs: number;
+  minutes: number;
+  damageShare: number;
+  killParticipation: number;
+}
+
+interface GameSample {
+  win: boolean;
+  kills: number;
+  deaths: number;
+  assists: number;
+  cs: number;
+  minutes: number;
+  damageShare: number;
+  killParticipation: number;
+}
+
+function createAccumulator(): Accumulator {
+  return { games: 0, wins: 0, kills: 0, deaths: 0, assists: 0, cs: 0, minutes: 0, damageShare: 0, killParticipation: 0 };
+}
+
+function addSample(acc: Accumulator, sample: GameSample): void {
+  acc.games++;
+  acc.wins += sample.win ? 1 : 0;
+  acc.kills += sample.kills;
+  acc.deaths += sample.deaths;
+  acc.assists += sample.assists;
+  acc.cs += sample.cs;
+  acc.minutes += sample.minutes;
+  acc.damageShare += sample.damageShare;
+  acc.killParticipation += sample.killParticipation;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function finalize(acc: Accumulator): PerformanceStats {
+  const games = Math.max(acc.games, 1);
+  return {
+    games: acc.games,
+    wins: acc.wins,
+    losses: acc.games - acc.wins,
+    winRate: Math.round((acc.wins / games) * 100),
+    averageKills: round(acc.kills / games, 1),
+    averageDeaths: round(acc.deaths / games, 1),
+    averageAssists: round(acc.assists / games, 1),
+    kda: round((acc.kills + acc.assists) / Math.max(acc.deaths, 1), 2),
+    csPerMinute: acc.minutes > 0 ? round(acc.cs / acc.minutes, 1) : 0,
+    damageShare: Math.round((acc.damageShare / games) * 100),
+    killParticipation: Math.round((acc.killParticipation / games) * 100)
+  };
+}
+
+/**
+ * Extract one player's sample from a match
+ * @returns The sample, or null if the player is absent or the game was remade
+ */
+function extractSample(match: MatchDto, puuid: string) {
+  const participant = match.info.participants.find(p => p.puuid === puuid);
+  if (!participant || participant.gameEndedInEarlySurrender) {
+    return null;
+  }
+
+  const teammates = match.info.participants.filter(p => p.teamId === participant.teamId);
+  const teamKills = teammates.reduce((sum, p) => sum + p.kills, 0);
+  const teamDamage = teammates.reduce((sum, p) => sum + p.totalDamageDealtToChampions, 0);
+
+  const sample: GameSample = {
+    win: participant.win,
+    kills: participant.kills,
+    deaths: participant.deaths,
+    assists: participant.assists,
+    cs: participant.totalMinionsKilled + participant.neutralMinionsKilled,
+    minutes: match.info.gameDuration / 60,
+    damageShare: teamDamage > 0 ? participant.totalDamageDealtToChampions / teamDamage : 0,
+    killParticipation: teamKills > 0 ? (participant.kills + participant.assists) / teamKills : 0
+  };
+
+  return {
+    championId: participant.championId,
+    championName: participant.championName,
+    role: participant.teamPosition || participant.individualPosition || 'UNKNOWN',
+    sample
+  };
+}
+
+/**
+ * Aggregate matches into per-champion and per-role performance for a player
+ * @param matches - Matches to aggregate
+ * @param puuid - PUUID of the player
+ * @returns Champions sorted by games played, and overall role splits
+ */
+export function aggregateChampionStats(matches: MatchDto[], puuid: string) {
+  const champions = new Map<number, { name: string; total: Accumulator; roles: Map<string, Accumulator> }>();
+  const roles = new Map<string, Accumulator>();
+  let gamesAnalyzed = 0;
+
+  for (const match of matches) {
+    const extracted = extractSample(match, puuid);
+    if (!extracted) {
+      continue;
+    }
+    gamesAnalyzed++;
+
+    let champion = champions.get(extracted.championId);
+    if (!champion) {
+      champion = { name: extracted.championName, total: createAccumulator(), roles: new Map() };
+      champions.set(extracted.championId, champion);
+    }
+
+    addSample(champion.total, extracted.sample);
+
+    const championRole = champion.roles.get(extracted.role) ?? createAccumulator();
+    addSample(championRole, extracted.sample);
+    champion.roles.set(extracted.role, championRole);
+
+    const overallRole = roles.get(extracted.role) ?? createAccumulator();
+    addSample(overallRole, extracted.sample);
+    roles.set(extracted.role, overallRole);
+  }
+
+  const finalizeRoles = (map: Map<string, Accumulator>) =>
+    Object.fromEntries([...map].map(([role, acc]) => [role, finalize(acc)]));
+
+  return {
+    gamesAnalyzed,
+    champions: [...champions].map(([championId, champion]): ChampionPerformance => ({
+      championId,
+      championName: champion.name,
+      ...finalize(champion.total),
+      roles: finalizeRoles(champion.roles)
+    })).sort((a, b) => b.games - a.games || b.winRate - a.winRate),
+    roles: finalizeRoles(roles)
+  };
+}
+
+/**
+ * Fetch a player's last N matches and aggregate them per champion
+ * Match details come from the match cache, so repeated calls only fetch new games;
+ * matches that cannot be fetched are skipped and counted instead of failing the result
+ * @param puuid - Player's PUUID
+ * @param region - Regional route for Match-V5
+ * @param options - Number of matches to analyze and optional queue filter
+ * @param riotClient - Riot API client
+ * @returns Per-champion and per-role performance
+ */
+export async function getChampionStats(
+  puuid: string,
+  region: Region,
+  options: { count: number; queue?: number },
+  riotClient: RiotClient
+): Promise<ChampionStatsResult> {
+  const query: MatchIdsQuery = { start: 0, count: options.count };
+  if (options.queue !== undefined) {
+    query.queue = options.queue;
+  }
+
+  const matchIds = await getMatchIds(puuid, region, query, riotClient);
+  const { matches, failedMatchIds } = await getMatchesSettled(matchIds, region, riotClient);
+
+  return {
+    puuid,
+    region,
+    queue: options.queue ?? null,
+    matchesFailed: failedMatchIds.length,
+    ...aggregateChampionStats(matches, puuid)
+  };
+}
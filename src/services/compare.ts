@@ -0,0 +1,250 @@
+/**
+ * Player comparison service
+ * Puts several players side by side: rank, level and win rate from their account profiles, and from
+ * their recent matches the champions they share and the games they played together or against each other
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import type { MatchDto, Region } from '../types/index.js';
+import type { ErrorResponse } from '../api/error-handler.js';
+import { toErrorResponse } from '../api/error-handler.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { getWinRate } from '../utils/rank.js';
+import { createLogger } from '../utils/logger.js';
+import { getAccountProfiles } from './account.js';
+import type { RankedQueueStats } from './account.js';
+import { aggregateChampionStats } from './champion-stats.js';
+import { getMatchIds, getMatchesSettled, getQueueName } from './matches.js';
+
+const logger = createLogger('compare');
+
+export interface RecentMatchStats {
+  gamesAnalyzed: number;
+  /** Matches skipped because they could not be fetched */
+  matchesFailed: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  /** Most played champions in the analyzed games */
+  topChampions: { championId: number; championName: string; games: number; winRate: number }[];
+}
+
+export type ComparedPlayer =
+  | {
+    riotId: string;
+    success: true;
+    puuid: string;
+    gameName: string;
+    tagLine: string;
+    summonerLevel: number;
+    profileIconId: number;
+    soloDuo: RankedQueueStats | null;
+    flex: RankedQueueStats | null;
+    /** Recent match stats, or null when match data could not be fetched */
+    recentMatches: RecentMatchStats | null;
+    matchError: ErrorResponse['body'] | null;
+  }
+  | { riotId: string; success: false; status: number; error: ErrorResponse['body'] };
+
+export interface ChampionOverlap {
+  championId: number;
+  championName: string;
+  /** Players who played the champion in their recent matches */
+  players: { riotId: string; games: number; winRate: number }[];
+}
+
+export interface SharedMatch {
+  matchId: string;
+  queueId: number;
+  queueName: string;
+  gameCreation: number;
+  sameTeam: boolean;
+  /** Riot IDs of the pair who won the game */
+  winners: string[];
+}
+
+export interface HeadToHead {
+  players: [string, string];
+  together: { games: number; wins: number };
+  /** Wins are listed in the same order as players */
+  against: { games: number; wins: [number, number] };
+  matches: SharedMatch[];
+}
+
+export interface PlayerComparison {
+  players: ComparedPlayer[];
+  championOverlap: ChampionOverlap[];
+  headToHead: HeadToHead[];
+}
+
+/**
+ * Maximum concurrent players whose match history is fetched at once
+ */
+const MATCH_CONCURRENCY = 2;
+
+const TOP_CHAMPIONS = 5;
+
+interface PlayerMatches {
+  riotId: string;
+  puuid: string;
+  matches: MatchDto[];
+}
+
+function toRecentMatchStats(matches: MatchDto[], matchesFailed: number, puuid: string): RecentMatchStats {
+  const { gamesAnalyzed, champions } = aggregateChampionStats(matches, puuid);
+  const wins = champions.reduce((sum, champion) => sum + champion.wins, 0);
+  return {
+    gamesAnalyzed,
+    matchesFailed,
+    wins,
+    losses: gamesAnalyzed - wins,
+    winRate: getWinRate(wins, gamesAnalyzed - wins),
+    topChampions: champions.slice(0, TOP_CHAMPIONS).map(champion => ({
+      championId: champion.championId,
+      championName: champion.championName,
+      games: champion.games,
+      winRate: champion.winRate
+    }))
+  };
+}
+
+/**
+ * Find champions played by at least two of the players, most played overall first
+ */
+function findChampionOverlap(histories: PlayerMatches[]): ChampionOverlap[] {
+  const byChampion = new Map<number, ChampionOverlap>();
+
+  for (const { riotId, puuid, matches } of histories) {
+    for (const champion of aggregateChampionStats(matches, puuid).champions) {
+      const overlap = byChampion.get(champion.championId) ?? {
+        championId: champion.championId,
+        championName: champion.championName,
+        players: []
+      };
+      overlap.players.push({ riotId, games: champion.games, winRate: champion.winRate });
+      byChampion.set(champion.championId, overlap);
+    }
+  }
+
+  const totalGames = (overlap: ChampionOverlap) => overlap.players.reduce((sum, player) => sum + player.games, 0);
+  return [...byChampion.values()]
+    .filter(overlap => overlap.players.length > 1)
+    .sort((a, b) => totalGames(b) - totalGames(a));
+}
+
+/**
+ * Find the matches each pair of players appeared in together, on the same or opposing teams
+ */
+function findHeadToHead(histories: PlayerMatches[]): HeadToHead[] {
+  const pairs: HeadToHead[] = [];
+
+  for (let i = 0; i < histories.length; i++) {
+    for (let j = i + 1; j < histories.length; j++) {
+      const first = histories[i]!;
+      const second = histories[j]!;
+      const secondMatchIds = new Set(second.matches.map(match => match.metadata.matchId));
+      const pair: HeadToHead = {
+        players: [first.riotId, second.riotId],
+        together: { games: 0, wins: 0 },
+        against: { games: 0, wins: [0, 0] },
+        matches: []
+      };
+
+      for (const match of first.matches) {
+        if (!secondMatchIds.has(match.metadata.matchId)) {
+          continue;
+        }
+        const a = match.info.participants.find(participant => participant.puuid === first.puuid);
+        const b = match.info.participants.find(participant => participant.puuid === second.puuid);
+        if (!a || !b) {
+          continue;
+        }
+
+        const sameTeam = a.teamId === b.teamId;
+        if (sameTeam) {
+          pair.together.games++;
+          pair.together.wins += a.win ? 1 : 0;
+        } else {
+          pair.against.games++;
+          pair.against.wins[a.win ? 0 : 1]++;
+        }
+        pair.matches.push({
+          matchId: match.metadata.matchId,
+          queueId: match.info.queueId,
+          queueName: getQueueName(match.info.queueId),
+          gameCreation: match.info.gameCreation,
+          sameTeam,
+          winners: [a.win ? first.riotId : null, b.win ? second.riotId : null].filter((riotId): riotId is string => riotId !== null)
+        });
+      }
+
+      pairs.push(pair);
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Compare players side by side
+ * Accounts are resolved through the account pipeline (and its cache); each player's last matches
+ * come from the match cache. A player whose account lookup fails is reported as failed; one whose
+ * match list cannot be fetched is still compared on rank and level, and single matches that fail are skipped.
+ * @param riotIds - Riot IDs in format "gameName#tagLine"
+ * @param region - Region for Account V1, platform discovery and Match-V5
+ * @param matchCount - Number of recent matches to analyze per player
+ * @param riotClient - Riot API client
+ * @returns Players in the requested order, shared champions and head-to-head games per pair
+ */
+export async function comparePlayers(
+  riotIds: string[],
+  region: Region,
+  matchCount: number,
+  riotClient: RiotClient
+): Promise<PlayerComparison> {
+  const accounts = await getAccountProfiles(riotIds, region, riotClient);
+  const histories: PlayerMatches[] = [];
+
+  const players = await mapWithConcurrency(accounts, MATCH_CONCURRENCY, async (account): Promise<ComparedPlayer> => {
+    if (!account.success) {
+      return account;
+    }
+
+    const profile = account.data;
+    const player: ComparedPlayer = {
+      riotId: account.riotId,
+      success: true,
+      puuid: profile.puuid,
+      gameName: profile.gameName,
+      tagLine: profile.tagLine,
+      summonerLevel: profile.summonerInfo.summonerLevel,
+      profileIconId: profile.summonerInfo.profileIconId,
+      soloDuo: profile.rankedStats.soloDuo,
+      flex: profile.rankedStats.flex,
+      recentMatches: null,
+      matchError: null
+    };
+
+    try {
+      const matchIds = await getMatchIds(profile.puuid, region, { start: 0, count: matchCount }, riotClient);
+      const { matches, failedMatchIds } = await getMatchesSettled(matchIds, region, riotClient);
+      histories.push({ riotId: account.riotId, puuid: profile.puuid, matches });
+      player.recentMatches = toRecentMatchStats(matches, failedMatchIds.length, profile.puuid);
+    } catch (error) {
+      logger.warn('Match history unavailable for comparison', { riotId: account.riotId, error });
+      player.matchError = toErrorResponse(error).body;
+    }
+
+    return player;
+  });
+
+  // Keep pairs in request order regardless of which history finished first
+  const order = new Map(riotIds.map((riotId, index) => [riotId, index]));
+  histories.sort((a, b) => (order.get(a.riotId) ?? 0) - (order.get(b.riotId) ?? 0));
+
+  return {
+    players,
+    championOverlap: findChampionOverlap(histories),
+    headToHead: findHeadToHead(histories)
+  };
+}
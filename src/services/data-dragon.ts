@@ -0,0 +1,459 @@
+/**
+ * Data Dragon service
+ * Tracks the current patch and serves static game data (champions, items, summoner spells,
+ * runes, queues) per patch and locale, from Data Dragon or a pre-downloaded bundle on disk
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CacheService, CacheKeys, CacheTTL } from './cache.js';
+import { DEFAULT_DATA_DRAGON_CONFIG } from '../config/index.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import { createLogger } from '../utils/logger.js';
+import type {
+  ChampionDataDto,
+  DataDragonListDto,
+  ItemDataDto,
+  QueueDto,
+  RuneTreeDto,
+  SummonerSpellDataDto
+} from '../types/index.js';
+
+const logger = createLogger('data-dragon');
+
+const DATA_DRAGON_BASE_URL = 'https://ddragon.leagueoflegends.com';
+const QUEUES_URL = 'https://static.developer.riotgames.com/docs/lol/queues.json';
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const LOCALE_PATTERN = /^[a-z]{2}_[A-Z]{2}$/;
+
+export interface DataDragonOptions {
+  /** Versions used when the latest version is unavailable, most preferred first */
+  fallbackVersions: string[];
+  /** Locale used when a lookup does not ask for one (e.g., en_US) */
+  locale: string;
+  /** Directory of an extracted ddragon bundle (dragontail), or null to use the CDN only */
+  bundlePath: string | null;
+  /** How often the current patch is refreshed, in seconds */
+  versionRefreshSeconds: number;
+  /** Timeout for a single Data Dragon request, in milliseconds */
+  timeoutMs: number;
+}
+
+export interface ChampionInfo {
+  id: number;
+  /** Data Dragon champion key used in asset paths (e.g., MonkeyKing) */
+  key: string;
+  name: string;
+  title: string;
+  tags: string[];
+  image: string;
+  imageUrl: string;
+}
+
+export interface ItemInfo {
+  id: number;
+  name: string;
+  plaintext: string;
+  totalGold: number;
+  tags: string[];
+  image: string;
+  imageUrl: string;
+}
+
+export interface SummonerSpellInfo {
+  id: number;
+  /** Data Dragon spell key used in asset paths (e.g., SummonerFlash) */
+  key: string;
+  name: string;
+  description: string;
+  cooldown: number | null;
+  image: string;
+  imageUrl: string;
+}
+
+export interface RuneInfo {
+  id: number;
+  key: string;
+  name: string;
+  shortDesc: string;
+  /** Rune tree (path) the rune belongs to, or null for the tree itself */
+  tree: string | null;
+  icon: string;
+  imageUrl: string;
+}
+
+export interface QueueInfo {
+  id: number;
+  map: string;
+  description: string | null;
+}
+
+export interface StaticDataSet {
+  version: string;
+  locale: string;
+  champions: Record<number, ChampionInfo>;
+  items: Record<number, ItemInfo>;
+  summonerSpells: Record<number, SummonerSpellInfo>;
+  runes: Record<number, RuneInfo>;
+}
+
+/**
+ * Data Dragon has no such file, e.g. an unknown patch or locale
+ */
+export class StaticDataNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StaticDataNotFoundError';
+  }
+}
+
+const options: DataDragonOptions = {
+  ...DEFAULT_DATA_DRAGON_CONFIG,
+  fallbackVersions: [...DEFAULT_DATA_DRAGON_CONFIG.fallbackVersions]
+};
+
+/**
+ * Last version successfully resolved, served when Data Dragon is briefly unreachable
+ */
+let lastKnownVersion: string | null = null;
+let versionTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Static data sets being loaded, shared by concurrent lookups for the same patch and locale
+ */
+const loads = new SingleFlight();
+
+/**
+ * Apply Data Dragon configuration
+ * @param overrides - Fallback versions, default locale, bundle path, refresh interval and request timeout
+ */
+export function configureDataDragon(overrides: Partial<DataDragonOptions>): void {
+  const { fallbackVersions, ...rest } = overrides;
+  Object.assign(options, rest);
+  if (fallbackVersions && fallbackVersions.length > 0) {
+    options.fallbackVersions = [...fallbackVersions];
+  }
+}
+
+/**
+ * Get the active Data Dragon configuration
+ */
+export function getDataDragonOptions(): Readonly<DataDragonOptions> {
+  return options;
+}
+
+/**
+ * Get the configured fallback versions, most preferred first
+ */
+export function getFallbackVersions(): string[] {
+  return [...options.fallbackVersions];
+}
+
+/**
+ * Check whether a locale looks like a Data Dragon locale (e.g., en_US, ko_KR)
+ */
+export function isValidLocale(locale: string): boolean {
+  return LOCALE_PATTERN.test(locale);
+}
+
+/**
+ * Compare two patch versions numerically
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Get the newest patch version contained in the configured bundle
+ * @returns Version, or null if no bundle is configured or it contains no versions
+ */
+function getBundleVersion(): string | null {
+  if (!options.bundlePath) {
+    return null;
+  }
+  try {
+    const versions = fs.readdirSync(options.bundlePath).filter(name => VERSION_PATTERN.test(name));
+    return versions.sort(compareVersions).pop() ?? null;
+  } catch (error) {
+    logger.warn('Failed to read Data Dragon bundle', { bundlePath: options.bundlePath, error });
+    return null;
+  }
+}
+
+/**
+ * Read a JSON file from the bundle, falling back to the network when it is not bundled
+ * @param bundleFile - Path relative to the bundle root
+ * @param url - URL to fetch when the file is not in the bundle
+ */
+async function loadJson<T>(bundleFile: string, url: string): Promise<T> {
+  if (options.bundlePath) {
+    const filePath = path.join(options.bundlePath, bundleFile);
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as T;
+    }
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(options.timeoutMs) });
+  // Data Dragon answers 403 rather than 404 for files that do not exist
+  if (response.status === 403 || response.status === 404) {
+    throw new StaticDataNotFoundError(`Data Dragon has no file at ${url}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Data Dragon responded with ${response.status} for ${url}`);
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Resolve the current patch from the bundle or Data Dragon and cache it
+ * @returns Current patch version, or the last known or fallback version if it cannot be resolved
+ */
+export async function refreshVersion(): Promise<string> {
+  let version = getBundleVersion();
+
+  if (!version) {
+    try {
+      const response = await fetch(`${DATA_DRAGON_BASE_URL}/api/versions.json`, { signal: AbortSignal.timeout(options.timeoutMs) });
+      const versions = await response.json() as string[];
+      version = versions[0] ?? null;
+    } catch (error) {
+      logger.warn('Failed to fetch Data Dragon version', { error });
+    }
+  }
+
+  if (!version) {
+    const fallbackVersion = lastKnownVersion ?? options.fallbackVersions[0]!;
+    logger.warn('Using fallback Data Dragon version', { fallbackVersion });
+    return fallbackVersion;
+  }
+
+  if (lastKnownVersion && version !== lastKnownVersion) {
+    logger.info('New Data Dragon patch detected', { previousVersion: lastKnownVersion, version });
+  }
+  lastKnownVersion = version;
+  CacheService.set(CacheKeys.ddragonVersion(), version, CacheTTL.ddragonVersion);
+  return version;
+}
+
+/**
+ * Get the latest Data Dragon version
+ * @returns Latest patch version, or a fallback version if Data Dragon is unreachable
+ */
+export async function getLatestVersion(): Promise<string> {
+  const cached = CacheService.get<string>(CacheKeys.ddragonVersion());
+  if (cached) {
+    return cached;
+  }
+  return refreshVersion();
+}
+
+/**
+ * Refresh the current patch now and then on the configured schedule
+ * @returns Function that stops tracking
+ */
+export function startVersionTracking(): () => void {
+  stopVersionTracking();
+  void refreshVersion();
+  versionTimer = setInterval(() => void refreshVersion(), options.versionRefreshSeconds * 1000);
+  versionTimer.unref();
+  return stopVersionTracking;
+}
+
+function stopVersionTracking(): void {
+  if (versionTimer) {
+    clearInterval(versionTimer);
+    versionTimer = null;
+  }
+}
+
+function imageUrl(version: string, group: string, file: string): string {
+  return `${DATA_DRAGON_BASE_URL}/cdn/${version}/img/${group}/${file}`;
+}
+
+async function fetchStaticData(version: string, locale: string): Promise<StaticDataSet> {
+  const dataPath = `${version}/data/${locale}`;
+  const [championList, itemList, spellList, runeTrees] = await Promise.all([
+    loadJson<DataDragonListDto<ChampionDataDto>>(`${dataPath}/champion.json`, `${DATA_DRAGON_BASE_URL}/cdn/${dataPath}/champion.json`),
+    loadJson<DataDragonListDto<ItemDataDto>>(`${dataPath}/item.json`, `${DATA_DRAGON_BASE_URL}/cdn/${dataPath}/item.json`),
+    loadJson<DataDragonListDto<SummonerSpellDataDto>>(`${dataPath}/summoner.json`, `${DATA_DRAGON_BASE_URL}/cdn/${dataPath}/summoner.json`),
+    loadJson<RuneTreeDto[]>(`${dataPath}/runesReforged.json`, `${DATA_DRAGON_BASE_URL}/cdn/${dataPath}/runesReforged.json`)
+  ]);
+
+  const data: StaticDataSet = { version, locale, champions: {}, items: {}, summonerSpells: {}, runes: {} };
+
+  for (const champion of Object.values(championList.data)) {
+    data.champions[Number(champion.key)] = {
+      id: Number(champion.key),
+      key: champion.id,
+      name: champion.name,
+      title: champion.title,
+      tags: champion.tags,
+      image: champion.image.full,
+      imageUrl: imageUrl(version, 'champion', champion.image.full)
+    };
+  }
+
+  for (const [id, item] of Object.entries(itemList.data)) {
+    data.items[Number(id)] = {
+      id: Number(id),
+      name: item.name,
+      plaintext: item.plaintext,
+      totalGold: item.gold.total,
+      tags: item.tags,
+      image: item.image.full,
+      imageUrl: imageUrl(version, 'item', item.image.full)
+    };
+  }
+
+  for (const spell of Object.values(spellList.data)) {
+    data.summonerSpells[Number(spell.key)] = {
+      id: Number(spell.key),
+      key: spell.id,
+      name: spell.name,
+      description: spell.description,
+      cooldown: spell.cooldown[0] ?? null,
+      image: spell.image.full,
+      imageUrl: imageUrl(version, 'spell', spell.image.full)
+    };
+  }
+
+  // Rune icons are not versioned: they live under /cdn/img/
+  for (const tree of runeTrees) {
+    data.runes[tree.id] = {
+      id: tree.id,
+      key: tree.key,
+      name: tree.name,
+      shortDesc: '',
+      tree: null,
+      icon: tree.icon,
+      imageUrl: `${DATA_DRAGON_BASE_URL}/cdn/img/${tree.icon}`
+    };
+    for (const rune of tree.slots.flatMap(slot => slot.runes)) {
+      data.runes[rune.id] = {
+        id: rune.id,
+        key: rune.key,
+        name: rune.name,
+        shortDesc: rune.shortDesc,
+        tree: tree.name,
+        icon: rune.icon,
+        imageUrl: `${DATA_DRAGON_BASE_URL}/cdn/img/${rune.icon}`
+      };
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Get all static data for a patch and locale
+ * @param locale - Data Dragon locale (defaults to the configured locale)
+ * @param version - Patch version (defaults to the current patch)
+ * @returns Champions, items, summoner spells and runes keyed by numeric ID
+ */
+export async function getStaticData(locale: string = options.locale, version?: string): Promise<StaticDataSet> {
+  const patch = version ?? await getLatestVersion();
+  const key = CacheKeys.ddragonStatic(patch, locale);
+  const cached = CacheService.get<StaticDataSet>(key);
+  if (cached) {
+    return cached;
+  }
+
+  return loads.do(key, async () => {
+    const data = await fetchStaticData(patch, locale);
+    CacheService.set(key, data, CacheTTL.ddragonStatic);
+    logger.info('Loaded Data Dragon static data', {
+      version: patch,
+      locale,
+      champions: Object.keys(data.champions).length,
+      items: Object.keys(data.items).length
+    });
+    return data;
+  });
+}
+
+/**
+ * Get queue metadata (map and description) keyed by queue ID
+ * Queues are not versioned, so one copy is shared by every patch and locale
+ */
+export async function getQueues(): Promise<Record<number, QueueInfo>> {
+  const cached = CacheService.get<Record<number, QueueInfo>>(CacheKeys.ddragonQueues());
+  if (cached) {
+    return cached;
+  }
+
+  return loads.do(CacheKeys.ddragonQueues(), async () => {
+    const queueList = await loadJson<QueueDto[]>('queues.json', QUEUES_URL);
+    const queues: Record<number, QueueInfo> = {};
+    for (const queue of queueList) {
+      queues[queue.queueId] = { id: queue.queueId, map: queue.map, description: queue.description };
+    }
+    CacheService.set(CacheKeys.ddragonQueues(), queues, CacheTTL.ddragonStatic);
+    return queues;
+  });
+}
+
+/**
+ * Look up a champion by numeric ID
+ * @returns Champion, or null if the ID is unknown on this patch
+ */
+export async function getChampionById(id: number, locale?: string): Promise<ChampionInfo | null> {
+  return (await getStaticData(locale)).champions[id] ?? null;
+}
+
+/**
+ * Look up an item by numeric ID
+ * @returns Item, or null if the ID is unknown on this patch
+ */
+export async function getItemById(id: number, locale?: string): Promise<ItemInfo | null> {
+  return (await getStaticData(locale)).items[id] ?? null;
+}
+
+/**
+ * Look up a summoner spell by numeric ID
+ * @returns Summoner spell, or null if the ID is unknown on this patch
+ */
+export async function getSummonerSpellById(id: number, locale?: string): Promise<SummonerSpellInfo | null> {
+  return (await getStaticData(locale)).summonerSpells[id] ?? null;
+}
+
+/**
+ * Look up a rune or rune tree by numeric ID
+ * @returns Rune, or null if the ID is unknown on this patch
+ */
+export async function getRuneById(id: number, locale?: string): Promise<RuneInfo | null> {
+  return (await getStaticData(locale)).runes[id] ?? null;
+}
+
+/**
+ * Look up a queue by ID
+ * @returns Queue, or null if the ID is unknown
+ */
+export async function getQueueById(id: number): Promise<QueueInfo | null> {
+  return (await getQueues())[id] ?? null;
+}
+
+/**
+ * Get champion names keyed by numeric champion ID
+ * @returns Map of champion ID to display name, empty if Data Dragon is unreachable
+ */
+export async function getChampionNames(): Promise<Record<number, string>> {
+  try {
+    const { champions } = await getStaticData();
+    const names: Record<number, string> = {};
+    for (const champion of Object.values(champions)) {
+      names[champion.id] = champion.name;
+    }
+    return names;
+  } catch (error) {
+    logger.warn('Failed to fetch Data Dragon champion list', { error });
+    return {};
+  }
+}
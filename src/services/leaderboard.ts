@@ -0,0 +1,164 @@
+/**
+ * Leaderboard service
+ * Builds apex tier leaderboards from League-V4 league lists, sorted by LP and paginated,
+ * with Riot IDs optionally resolved for the requested page only
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import { ApiRouting } from '../api/routing.js';
+import type { LeagueItemDto, LeagueListDto, Platform } from '../types/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { getWinRate, getRankProgress } from '../utils/rank.js';
+import type { RankProgress } from '../utils/rank.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import { createLogger } from '../utils/logger.js';
+import { CacheService, CacheKeys, CacheTTL } from './cache.js';
+import { getRiotIdByPuuid } from './account.js';
+
+const logger = createLogger('leaderboard');
+
+export const LEADERBOARD_TIERS = ['challenger', 'grandmaster', 'master'] as const;
+export type LeaderboardTier = typeof LEADERBOARD_TIERS[number];
+
+export const LEADERBOARD_QUEUES = ['RANKED_SOLO_5x5', 'RANKED_FLEX_SR'] as const;
+export type LeaderboardQueue = typeof LEADERBOARD_QUEUES[number];
+
+export interface LeaderboardQuery {
+  platform: Platform;
+  queue: LeaderboardQueue;
+  tier: LeaderboardTier;
+  /** Page number, starting at 1 */
+  page: number;
+  pageSize: number;
+  /** Resolve Riot IDs for the entries on the page via Account V1 */
+  resolveRiotIds: boolean;
+}
+
+export interface LeaderboardEntry extends RankProgress {
+  /** Position within the league, starting at 1 */
+  position: number;
+  puuid: string;
+  /** Riot ID, or null when not requested or the lookup failed */
+  riotId: string | null;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  hotStreak: boolean;
+  veteran: boolean;
+  freshBlood: boolean;
+  inactive: boolean;
+}
+
+export interface Leaderboard {
+  platform: Platform;
+  queue: LeaderboardQueue;
+  tier: LeaderboardTier;
+  leagueId: string;
+  name: string;
+  totalEntries: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Maximum concurrent Account V1 lookups when resolving a page of Riot IDs
+ */
+const RIOT_ID_CONCURRENCY = 5;
+
+/**
+ * League list fetches in progress, shared by identical concurrent requests
+ */
+const loads = new SingleFlight();
+
+function fetchLeague(tier: LeaderboardTier, queue: LeaderboardQueue, platform: Platform, riotClient: RiotClient): Promise<LeagueListDto> {
+  switch (tier) {
+    case 'challenger':
+      return riotClient.getChallengerLeague(queue, platform);
+    case 'grandmaster':
+      return riotClient.getGrandmasterLeague(queue, platform);
+    case 'master':
+      return riotClient.getMasterLeague(queue, platform);
+  }
+}
+
+/**
+ * Get a league list sorted by LP (then wins), from the cache when possible
+ */
+async function getSortedLeague(tier: LeaderboardTier, queue: LeaderboardQueue, platform: Platform, riotClient: RiotClient): Promise<LeagueListDto> {
+  const cacheKey = CacheKeys.leaderboard(platform, queue, tier);
+  const cached = CacheService.get<LeagueListDto>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  return loads.do(cacheKey, async () => {
+    const league = await fetchLeague(tier, queue, platform, riotClient);
+    const sorted: LeagueListDto = {
+      ...league,
+      entries: [...league.entries].sort((a, b) => b.leaguePoints - a.leaguePoints || b.wins - a.wins)
+    };
+    CacheService.set(cacheKey, sorted, CacheTTL.leaderboard);
+    logger.debug('Loaded league list', { platform, queue, tier, entries: sorted.entries.length });
+    return sorted;
+  });
+}
+
+function toLeaderboardEntry(item: LeagueItemDto, tier: string, position: number): LeaderboardEntry {
+  return {
+    position,
+    puuid: item.puuid,
+    riotId: null,
+    leaguePoints: item.leaguePoints,
+    wins: item.wins,
+    losses: item.losses,
+    winRate: getWinRate(item.wins, item.losses),
+    hotStreak: item.hotStreak,
+    veteran: item.veteran,
+    freshBlood: item.freshBlood,
+    inactive: item.inactive,
+    ...getRankProgress({ tier, rank: item.rank, leaguePoints: item.leaguePoints })
+  };
+}
+
+/**
+ * Get one page of an apex tier leaderboard
+ * @param query - Platform, queue, tier, page and whether to resolve Riot IDs
+ * @param riotClient - Riot API client
+ * @returns Page of entries sorted by LP, with pagination details
+ */
+export async function getLeaderboard(query: LeaderboardQuery, riotClient: RiotClient): Promise<Leaderboard> {
+  const { platform, queue, tier, page, pageSize } = query;
+  const league = await getSortedLeague(tier, queue, platform, riotClient);
+
+  const start = (page - 1) * pageSize;
+  const entries = league.entries
+    .slice(start, start + pageSize)
+    .map((item, index) => toLeaderboardEntry(item, league.tier, start + index + 1));
+
+  if (query.resolveRiotIds) {
+    const region = ApiRouting.getRegionFromPlatform(platform);
+    await mapWithConcurrency(entries, RIOT_ID_CONCURRENCY, async (entry) => {
+      try {
+        entry.riotId = await getRiotIdByPuuid(entry.puuid, region, riotClient);
+      } catch (error) {
+        logger.warn('Riot ID lookup failed for leaderboard entry', { position: entry.position, error });
+      }
+    });
+  }
+
+  return {
+    platform,
+    queue,
+    tier,
+    leagueId: league.leagueId,
+    name: league.name,
+    totalEntries: league.entries.length,
+    page,
+    pageSize,
+    totalPages: Math.ceil(league.entries.length / pageSize),
+    entries
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Live game service
+ * Builds the live game view from Spectator-V5 data and each participant's League-V4 entries
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import type { CurrentGameInfoDto, CurrentGameParticipantDto, LeagueEntryDto, Platform } from '../types/index.js';
+import { getChampionNames } from './data-dragon.js';
+import { getQueueName } from './matches.js';
+import { createLogger } from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { recordLeagueEntries } from './rank-history.js';
+import { observeActiveGame } from './player-events.js';
+import { getRankProgress } from '../utils/rank.js';
+import type { RankProgress } from '../utils/rank.js';
+
+const logger = createLogger('live-game');
+
+/**
+ * Maximum concurrent League-V4 lookups for the ten participants of a game
+ */
+const PARTICIPANT_LOOKUP_CONCURRENCY = 3;
+
+export interface LiveRankedEntry extends RankProgress {
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+}
+
+export interface LiveGameParticipant {
+  puuid: string | null;
+  riotId: string | null;
+  bot: boolean;
+  champion: {
+    id: number;
+    name: string | null;
+  };
+  summonerSpells: [number, number];
+  runes: {
+    primaryStyle: number | null;
+    subStyle: number | null;
+    perkIds: number[];
+  };
+  ranked: {
+    soloDuo: LiveRankedEntry | null;
+    flex: LiveRankedEntry | null;
+  } | null;
+}
+
+export interface LiveGameTeam {
+  teamId: number;
+  side: 'blue' | 'red';
+  bans: { championId: number; championName: string | null; pickTurn: number }[];
+  participants: LiveGameParticipant[];
+}
+
+export interface LiveGame {
+  gameId: number;
+  platform: Platform;
+  gameMode: string;
+  gameType: string;
+  queueId: number | null;
+  queueName: string | null;
+  mapId: number;
+  gameStartTime: number;
+  elapsedSeconds: number;
+  teams: LiveGameTeam[];
+}
+
+function toRankedEntry(entry: LeagueEntryDto | undefined): LiveRankedEntry | null {
+  if (!entry) {
+    return null;
+  }
+  return {
+    tier: entry.tier,
+    rank: entry.rank,
+    leaguePoints: entry.leaguePoints,
+    wins: entry.wins,
+    losses: entry.losses,
+    ...getRankProgress(entry)
+  };
+}
+
+/**
+ * Look up a participant's ranked solo/flex entries on the game's platform
+ * Bots and players hidden by streamer mode have no PUUID; lookup failures are reported as null
+ * @param recordHistory - Record a rank history snapshot (only for the player who was looked up)
+ */
+async function getParticipantRanked(
+  participant: CurrentGameParticipantDto,
+  platform: Platform,
+  riotClient: RiotClient,
+  recordHistory: boolean
+): Promise<LiveGameParticipant['ranked']> {
+  if (!participant.puuid || participant.bot) {
+    return null;
+  }
+
+  try {
+    const entries = await riotClient.getLeagueEntriesbyEncryptedPUUID(participant.puuid, platform);
+    if (recordHistory) {
+      recordLeagueEntries(participant.puuid, entries);
+    }
+    return {
+      soloDuo: toRankedEntry(entries.find(entry => entry.queueType === 'RANKED_SOLO_5x5')),
+      flex: toRankedEntry(entries.find(entry => entry.queueType === 'RANKED_FLEX_SR'))
+    };
+  } catch (error) {
+    logger.warn('League-V4 lookup failed for live game participant', { platform, error });
+    return null;
+  }
+}
+
+/**
+ * Build the live game view with champion names and ranked entries for every participant
+ * Rank history and game start events are recorded for the looked-up player only, not the other participants
+ * @param game - Active game from Spectator-V5
+ * @param platform - Platform the game is being played on
+ * @param riotClient - Riot API client
+ * @param puuid - PUUID of the player who was looked up
+ * @param now - Current time in milliseconds, used to compute elapsed time
+ * @returns Live game grouped by team
+ */
+export async function buildLiveGame(
+  game: CurrentGameInfoDto,
+  platform: Platform,
+  riotClient: RiotClient,
+  puuid: string,
+  now: number = Date.now()
+): Promise<LiveGame> {
+  const [championNames, ranked] = await Promise.all([
+    getChampionNames(),
+    mapWithConcurrency(game.participants, PARTICIPANT_LOOKUP_CONCURRENCY, participant =>
+      getParticipantRanked(participant, platform, riotClient, participant.puuid === puuid))
+  ]);
+
+  const participants = game.participants.map((participant, index): LiveGameParticipant & { teamId: number } => ({
+    teamId: participant.teamId,
+    puuid: participant.puuid,
+    riotId: participant.riotId ?? null,
+    bot: participant.bot,
+    champion: {
+      id: participant.championId,
+      name: championNames[participant.championId] ?? null
+    },
+    summonerSpells: [participant.spell1Id, participant.spell2Id],
+    runes: {
+      primaryStyle: participant.perks?.perkStyle ?? null,
+      subStyle: participant.perks?.perkSubStyle ?? null,
+      perkIds: participant.perks?.perkIds ?? []
+    },
+    ranked: ranked[index] ?? null
+  }));
+
+  observeActiveGame(puuid, {
+    gameId: game.gameId,
+    platform,
+    queueId: game.gameQueueConfigId ?? null,
+    gameMode: game.gameMode
+  }, now);
+
+  const teamIds = [...new Set(game.participants.map(participant => participant.teamId))].sort();
+
+  const teams = teamIds.map((teamId): LiveGameTeam => ({
+    teamId,
+    side: teamId === 100 ? 'blue' : 'red',
+    bans: game.bannedChampions
+      .filter(ban => ban.teamId === teamId && ban.championId > 0)
+      .map(ban => ({
+        championId: ban.championId,
+        championName: championNames[ban.championId] ?? null,
+        pickTurn: ban.pickTurn
+      })),
+    participants: participants
+      .filter(participant => participant.teamId === teamId)
+      .map(({ teamId: _teamId, ...participant }) => participant)
+  }));
+
+  // gameStartTime is 0 while the game is still loading
+  const elapsedSeconds = game.gameStartTime > 0
+    ? Math.max(0, Math.floor((now - game.gameStartTime) / 1000))
+    : game.gameLength;
+
+  return {
+    gameId: game.gameId,
+    platform,
+    gameMode: game.gameMode,
+    gameType: game.gameType,
+    queueId: game.gameQueueConfigId ?? null,
+    queueName: game.gameQueueConfigId !== undefined ? getQueueName(game.gameQueueConfigId) : null,
+    mapId: game.mapId,
+    gameStartTime: game.gameStartTime,
+    elapsedSeconds,
+    teams
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Mastery service
+ * Fetches Champion-Mastery-V4 data through the cache and resolves champion names
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import type { ChampionMasteryDto, Platform } from '../types/index.js';
+import { createLogger } from '../utils/logger.js';
+import { CacheService, CacheKeys, CacheTTL } from './cache.js';
+import { getChampionNames } from './data-dragon.js';
+
+const logger = createLogger('mastery');
+
+export interface ChampionMasterySummary {
+  championId: number;
+  championName: string | null;
+  championLevel: number;
+  championPoints: number;
+  championPointsUntilNextLevel: number;
+  lastPlayTime: number;
+  milestoneGrades: string[];
+}
+
+export interface MasteryProfile {
+  platform: Platform;
+  totalScore: number;
+  totalPoints: number;
+  championCount: number;
+  champions: ChampionMasterySummary[];
+}
+
+interface CachedMastery {
+  score: number;
+  masteries: ChampionMasteryDto[];
+}
+
+/**
+ * Get a player's mastery profile with champion names resolved from Data Dragon
+ * @param puuid - Player's PUUID
+ * @param platform - Platform the player was found on
+ * @param riotClient - Riot API client
+ * @param limit - Maximum number of champions to return (all if omitted)
+ * @returns Mastery score, point totals and champions sorted by points
+ */
+export async function getMasteryProfile(
+  puuid: string,
+  platform: Platform,
+  riotClient: RiotClient,
+  limit?: number
+): Promise<MasteryProfile> {
+  const cacheKey = CacheKeys.mastery(puuid, platform);
+  let mastery = CacheService.get<CachedMastery>(cacheKey);
+
+  if (!mastery) {
+    const [score, masteries] = await Promise.all([
+      riotClient.getChampionMasteryScoreByPuuid(puuid, platform),
+      riotClient.getChampionMasteriesByPuuid(puuid, platform)
+    ]);
+    mastery = { score, masteries };
+    CacheService.set(cacheKey, mastery, CacheTTL.mastery);
+  }
+
+  const championNames = await getChampionNames();
+  const selected = limit !== undefined ? mastery.masteries.slice(0, limit) : mastery.masteries;
+
+  return {
+    platform,
+    totalScore: mastery.score,
+    totalPoints: mastery.masteries.reduce((sum, entry) => sum + entry.championPoints, 0),
+    championCount: mastery.masteries.length,
+    champions: selected.map(entry => ({
+      championId: entry.championId,
+      championName: championNames[entry.championId] ?? null,
+      championLevel: entry.championLevel,
+      championPoints: entry.championPoints,
+      championPointsUntilNextLevel: entry.championPointsUntilNextLevel,
+      lastPlayTime: entry.lastPlayTime,
+      milestoneGrades: entry.milestoneGrades ?? []
+    }))
+  };
+}
+
+/**
+ * Get a player's mastery profile for payloads where mastery is optional extra data
+ * Failures are logged and reported as null instead of failing the whole response
+ * @param puuid - Player's PUUID
+ * @param platform - Platform the player was found on
+ * @param riotClient - Riot API client
+ * @param limit - Maximum number of champions to return (all if omitted)
+ * @returns Mastery profile, or null if Champion-Mastery-V4 could not be reached
+ */
+export async function getOptionalMasteryProfile(
+  puuid: string,
+  platform: Platform,
+  riotClient: RiotClient,
+  limit?: number
+): Promise<MasteryProfile | null> {
+  try {
+    return await getMasteryProfile(puuid, platform, riotClient, limit);
+  } catch (error) {
+    logger.warn('Champion-Mastery-V4 not available', { platform, error });
+    return null;
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * Match service
+ * Fetches Match-V5 data through the cache and summarizes games for a player
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import type { MatchDto, MatchIdsQuery, MatchRegion, ParticipantDto, Platform, Region, TeamDto } from '../types/index.js';
+import { ApiRouting } from '../api/routing.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { createLogger } from '../utils/logger.js';
+import { CacheService } from './cache.js';
+
+const logger = createLogger('matches');
+
+/**
+ * Maximum concurrent match detail fetches when analyzing many matches at once;
+ * the RiotClient rate limiter still queues individual calls
+ */
+export const MATCH_FETCH_CONCURRENCY = 4;
+
+/**
+ * Human-readable names for common queue IDs
+ * See https://static.developer.riotgames.com/docs/lol/queues.json
+ */
+export const QUEUE_NAMES: Record<number, string> = {
+  0: 'Custom',
+  400: 'Normal Draft',
+  420: 'Ranked Solo/Duo',
+  430: 'Normal Blind',
+  440: 'Ranked Flex',
+  450: 'ARAM',
+  490: 'Quickplay',
+  700: 'Clash',
+  720: 'ARAM Clash',
+  830: 'Co-op vs AI Intro',
+  840: 'Co-op vs AI Beginner',
+  850: 'Co-op vs AI Intermediate',
+  900: 'ARURF',
+  1700: 'Arena',
+  1900: 'URF'
+};
+
+export interface MatchSummary {
+  matchId: string;
+  queueId: number;
+  queueName: string;
+  gameMode: string;
+  gameCreation: number;
+  gameDuration: number;
+  champion: {
+    id: number;
+    name: string;
+    level: number;
+  };
+  position: string;
+  kills: number;
+  deaths: number;
+  assists: number;
+  kda: number;
+  cs: number;
+  csPerMinute: number;
+  result: 'win' | 'loss' | 'remake';
+}
+
+export interface MatchParticipantDetail {
+  puuid: string;
+  riotId: {
+    gameName: string;
+    tagLine: string;
+  };
+  champion: {
+    id: number;
+    name: string;
+    level: number;
+  };
+  position: string;
+  kills: number;
+  deaths: number;
+  assists: number;
+  kda: number;
+  killParticipation: number;
+  cs: number;
+  items: number[];
+  trinket: number;
+  summonerSpells: [number, number];
+  runes: {
+    primaryStyle: number | null;
+    subStyle: number | null;
+    keystone: number | null;
+    perks: number[];
+    statPerks: {
+      offense: number;
+      flex: number;
+      defense: number;
+    };
+  };
+  damage: {
+    toChampions: number;
+    physicalToChampions: number;
+    magicToChampions: number;
+    trueToChampions: number;
+    total: number;
+    taken: number;
+    selfMitigated: number;
+    toObjectives: number;
+    toBuildings: number;
+    healed: number;
+  };
+  vision: {
+    score: number;
+    wardsPlaced: number;
+    wardsKilled: number;
+    controlWardsBought: number;
+  };
+  gold: {
+    earned: number;
+    spent: number;
+  };
+  objectives: {
+    turretKills: number;
+    inhibitorKills: number;
+    dragonKills: number;
+    baronKills: number;
+  };
+  win: boolean;
+}
+
+export interface MatchTeamDetail {
+  teamId: number;
+  side: 'blue' | 'red';
+  win: boolean;
+  bans: number[];
+  objectives: TeamDto['objectives'] | null;
+  totals: {
+    kills: number;
+    deaths: number;
+    assists: number;
+    gold: number;
+    damageToChampions: number;
+    damageTaken: number;
+    visionScore: number;
+    cs: number;
+  };
+  participants: MatchParticipantDetail[];
+}
+
+export interface MatchDetail {
+  matchId: string;
+  platform: Platform;
+  region: MatchRegion;
+  queueId: number;
+  queueName: string;
+  gameMode: string;
+  gameVersion: string;
+  gameCreation: number;
+  gameDuration: number;
+  winningTeamId: number | null;
+  teams: MatchTeamDetail[];
+}
+
+/**
+ * Get the display name for a queue ID
+ * @param queueId - Queue ID from match info
+ * @returns Queue name, or a generic label for unknown queues
+ */
+export function getQueueName(queueId: number): string {
+  return QUEUE_NAMES[queueId] ?? `Queue ${queueId}`;
+}
+
+/**
+ * Display names for League-V4 queue types
+ */
+export const LEAGUE_QUEUE_NAMES: Record<string, string> = {
+  RANKED_SOLO_5x5: 'Ranked Solo/Duo',
+  RANKED_FLEX_SR: 'Ranked Flex',
+  RANKED_FLEX_TT: 'Ranked Flex 3v3',
+  CHERRY: 'Arena',
+  RANKED_TFT: 'Ranked TFT',
+  RANKED_TFT_DOUBLE_UP: 'Ranked TFT Double Up',
+  RANKED_TFT_TURBO: 'TFT Hyper Roll'
+};
+
+/**
+ * Get the display name for a League-V4 queue type
+ * @param queueType - Queue type from a league entry (e.g., RANKED_SOLO_5x5)
+ * @returns Queue name, or the queue type in title case for unknown queues (e.g., "Ranked New Mode")
+ */
+export function getLeagueQueueName(queueType: string): string {
+  return LEAGUE_QUEUE_NAMES[queueType] ?? queueType
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+/**
+ * Compute KDA ratio, treating zero deaths as one to avoid dividing by zero
+ */
+export function computeKda(kills: number, deaths: number, assists: number): number {
+  return Math.round(((kills + assists) / Math.max(deaths, 1)) * 100) / 100;
+}
+
+/**
+ * Serialize match ID filters into a stable cache key fragment
+ */
+export function serializeMatchIdsQuery(query: MatchIdsQuery): string {
+  return (Object.keys(query) as (keyof MatchIdsQuery)[])
+    .filter(key => query[key] !== undefined)
+    .sort()
+    .map(key => `${key}=${query[key]}`)
+    .join('&');
+}
+
+/**
+ * Get match IDs for a player, using the short-lived match ID cache
+ * @param puuid - Player's PUUID
+ * @param region - Regional route for Match-V5
+ * @param query - Match ID filters and pagination
+ * @param riotClient - Riot API client
+ * @returns Array of match IDs, most recent first
+ */
+export async function getMatchIds(
+  puuid: string,
+  region: Region,
+  query: MatchIdsQuery,
+  riotClient: RiotClient
+): Promise<string[]> {
+  const queryKey = serializeMatchIdsQuery(query);
+  const cached = CacheService.getCachedMatchIds(puuid, region, queryKey);
+  if (cached) {
+    return cached;
+  }
+
+  const matchIds = await riotClient.getMatchIdsByPuuid(puuid, region, query);
+  CacheService.cacheMatchIds(puuid, region, queryKey, matchIds);
+  return matchIds;
+}
+
+/**
+ * Get match details, using the match cache
+ * @param matchId - Match ID
+ * @param region - Regional route for Match-V5
+ * @param riotClient - Riot API client
+ * @returns Full match details
+ */
+export async function getMatch(matchId: string, region: MatchRegion, riotClient: RiotClient): Promise<MatchDto> {
+  const cached = CacheService.getCachedMatch(matchId);
+  if (cached) {
+    return cached;
+  }
+
+  const match = await riotClient.getMatchById(matchId, region);
+  CacheService.cacheMatch(matchId, match);
+  return match;
+}
+
+export interface MatchFetchResult {
+  /** Matches that were fetched, in the same order as the requested IDs */
+  matches: MatchDto[];
+  /** Matches that could not be fetched (e.g., rate limited or unavailable) */
+  failedMatchIds: string[];
+}
+
+/**
+ * Get details for several matches a few at a time, skipping matches that fail instead of rejecting,
+ * so one rate-limited or unavailable match does not fail a whole page or aggregation
+ * @param matchIds - Match IDs to fetch
+ * @param region - Regional route for Match-V5
+ * @param riotClient - Riot API client
+ * @returns Fetched matches and the IDs of those that failed
+ */
+export async function getMatchesSettled(matchIds: string[], region: Region, riotClient: RiotClient): Promise<MatchFetchResult> {
+  const results = await mapWithConcurrency(matchIds, MATCH_FETCH_CONCURRENCY, async (matchId) => {
+    try {
+      return await getMatch(matchId, region, riotClient);
+    } catch (error) {
+      logger.warn('Skipping match that could not be fetched', { matchId, error });
+      return null;
+    }
+  });
+
+  return {
+    matches: results.filter((match): match is MatchDto => match !== null),
+    failedMatchIds: matchIds.filter((_, index) => results[index] === null)
+  };
+}
+
+/**
+ * Summarize a match from one player's point of view
+ * @param match - Full match details
+ * @param puuid - PUUID of the player to summarize
+ * @returns Match summary, or null if the player did not take part
+ */
+export function summarizeMatch(match: MatchDto, puuid: string): MatchSummary | null {
+  const participant = match.info.participants.find(p => p.puuid === puuid);
+  if (!participant) {
+    return null;
+  }
+
+  const cs = participant.totalMinionsKilled + participant.neutralMinionsKilled;
+  const minutes = match.info.gameDuration / 60;
+  const result = participant.gameEndedInEarlySurrender ? 'remake' : participant.win ? 'win' : 'loss';
+
+  return {
+    matchId: match.metadata.matchId,
+    queueId: match.info.queueId,
+    queueName: getQueueName(match.info.queueId),
+    gameMode: match.info.gameMode,
+    gameCreation: match.info.gameCreation,
+    gameDuration: match.info.gameDuration,
+    champion: {
+      id: participant.championId,
+      name: participant.championName,
+      level: participant.champLevel
+    },
+    position: participant.teamPosition || participant.individualPosition,
+    kills: participant.kills,
+    deaths: participant.deaths,
+    assists: participant.assists,
+    kda: computeKda(participant.kills, participant.deaths, participant.assists),
+    cs,
+    csPerMinute: minutes > 0 ? Math.round((cs / minutes) * 10) / 10 : 0,
+    result
+  };
+}
+
+/**
+ * Break down a single participant's stats for the match detail view
+ */
+function buildParticipantDetail(participant: ParticipantDto, teamKills: number): MatchParticipantDetail {
+  const [primary, secondary] = participant.perks.styles;
+
+  return {
+    puuid: participant.puuid,
+    riotId: {
+      gameName: participant.riotIdGameName || participant.summonerName || '',
+      tagLine: participant.riotIdTagline || ''
+    },
+    champion: {
+      id: participant.championId,
+      name: participant.championName,
+      level: participant.champLevel
+    },
+    position: participant.teamPosition || participant.individualPosition,
+    kills: participant.kills,
+    deaths: participant.deaths,
+    assists: participant.assists,
+    kda: computeKda(participant.kills, participant.deaths, participant.assists),
+    killParticipation: teamKills > 0
+      ? Math.round(((participant.kills + participant.assists) / teamKills) * 100)
+      : 0,
+    cs: participant.totalMinionsKilled + participant.neutralMinionsKilled,
+    items: [
+      participant.item0,
+      participant.item1,
+      participant.item2,
+      participant.item3,
+      participant.item4,
+      participant.item5
+    ],
+    trinket: participant.item6,
+    summonerSpells: [participant.summoner1Id, participant.summoner2Id],
+    runes: {
+      primaryStyle: primary?.style ?? null,
+      subStyle: secondary?.style ?? null,
+      keystone: primary?.selections[0]?.perk ?? null,
+      perks: participant.perks.styles.flatMap(style => style.selections.map(selection => selection.perk)),
+      statPerks: {
+        offense: participant.perks.statPerks.offense,
+        flex: participant.perks.statPerks.flex,
+        defense: participant.perks.statPerks.defense
+      }
+    },
+    damage: {
+      toChampions: participant.totalDamageDealtToChampions,
+      physicalToChampions: participant.physicalDamageDealtToChampions,
+      magicToChampions: participant.magicDamageDealtToChampions,
+      trueToChampions: participant.trueDamageDealtToChampions,
+      total: participant.totalDamageDealt,
+      taken: participant.totalDamageTaken,
+      selfMitigated: participant.damageSelfMitigated,
+      toObjectives: participant.damageDealtToObjectives,
+      toBuildings: participant.damageDealtToBuildings,
+      healed: participant.totalHeal
+    },
+    vision: {
+      score: participant.visionScore,
+      wardsPlaced: participant.wardsPlaced,
+      wardsKilled: participant.wardsKilled,
+      controlWardsBought: participant.visionWardsBoughtInGame
+    },
+    gold: {
+      earned: participant.goldEarned,
+      spent: participant.goldSpent
+    },
+    objectives: {
+      turretKills: participant.turretKills,
+      inhibitorKills: participant.inhibitorKills,
+      dragonKills: participant.dragonKills,
+      baronKills: participant.baronKills
+    },
+    win: participant.win
+  };
+}
+
+/**
+ * Build the full per-team, per-participant breakdown of a match
+ * @param match - Full match details
+ * @param platform - Platform the match was played on
+ * @returns Match detail with participants grouped by team and team totals
+ */
+export function buildMatchDetail(match: MatchDto, platform: Platform): MatchDetail {
+  const teamIds = match.info.teams.length > 0
+    ? match.info.teams.map(team => team.teamId)
+    : [...new Set(match.info.participants.map(p => p.teamId))];
+
+  const teams = teamIds.map((teamId): MatchTeamDetail => {
+    const team = match.info.teams.find(t => t.teamId === teamId);
+    const members = match.info.participants.filter(p => p.teamId === teamId);
+    const teamKills = members.reduce((sum, p) => sum + p.kills, 0);
+    const participants = members.map(p => buildParticipantDetail(p, teamKills));
+
+    return {
+      teamId,
+      side: teamId === 100 ? 'blue' : 'red',
+      win: team?.win ?? members.some(p => p.win),
+      bans: team?.bans.map(ban => ban.championId) ?? [],
+      objectives: team?.objectives ?? null,
+      totals: {
+        kills: teamKills,
+        deaths: participants.reduce((sum, p) => sum + p.deaths, 0),
+        assists: participants.reduce((sum, p) => sum + p.assists, 0),
+        gold: participants.reduce((sum, p) => sum + p.gold.earned, 0),
+        damageToChampions: participants.reduce((sum, p) => sum + p.damage.toChampions, 0),
+        damageTaken: participants.reduce((sum, p) => sum + p.damage.taken, 0),
+        visionScore: participants.reduce((sum, p) => sum + p.vision.score, 0),
+        cs: participants.reduce((sum, p) => sum + p.cs, 0)
+      },
+      participants
+    };
+  });
+
+  return {
+    matchId: match.metadata.matchId,
+    platform,
+    region: ApiRouting.getMatchRegionFromPlatform(platform),
+    queueId: match.info.queueId,
+    queueName: getQueueName(match.info.queueId),
+    gameMode: match.info.gameMode,
+    gameVersion: match.info.gameVersion,
+    gameCreation: match.info.gameCreation,
+    gameDuration: match.info.gameDuration,
+    winningTeamId: teams.find(team => team.win)?.teamId ?? null,
+    teams
+  };
+}
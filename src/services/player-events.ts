@@ -0,0 +1,134 @@
+/**
+ * Player events service
+ * Remembers the last observed summoner level and active game per player, and emits events when
+ * data fetched for other features shows that something changed (rank and Riot ID changes are
+ * detected by the rank history and Riot ID history services)
+ */
+
+import { randomUUID } from 'crypto';
+import type { Platform } from '../types/index.js';
+import { JsonFileStore } from '../utils/json-file-store.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('player-events');
+
+export const PLAYER_EVENT_TYPES = [
+  'rank.promoted',
+  'rank.demoted',
+  'summoner.level_changed',
+  'game.started',
+  'account.riot_id_changed'
+] as const;
+export type PlayerEventType = typeof PLAYER_EVENT_TYPES[number];
+
+export interface RankPosition {
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+}
+
+/**
+ * Payload of each event type
+ */
+export interface PlayerEventData {
+  'rank.promoted': { queueType: string; previous: RankPosition; current: RankPosition };
+  'rank.demoted': { queueType: string; previous: RankPosition; current: RankPosition };
+  'summoner.level_changed': { previous: number; current: number };
+  'game.started': { gameId: number; platform: Platform; queueId: number | null; gameMode: string };
+  'account.riot_id_changed': { previous: string; current: string };
+}
+
+export type PlayerEvent = {
+  [T in PlayerEventType]: {
+    id: string;
+    type: T;
+    puuid: string;
+    occurredAt: string;
+    data: PlayerEventData[T];
+  }
+}[PlayerEventType];
+
+export type PlayerEventListener = (event: PlayerEvent) => void;
+
+interface ObservedPlayer {
+  summonerLevel?: number;
+  gameId?: number;
+}
+
+type PlayerEventsDocument = Record<string, ObservedPlayer>;
+
+let store = new JsonFileStore<PlayerEventsDocument>(null, {});
+const listeners: PlayerEventListener[] = [];
+
+/**
+ * Persist observed player state to a JSON file (in memory only until this is called)
+ * @param filePath - Where observed state is stored, or null to keep it in memory
+ */
+export function configurePlayerEvents(filePath: string | null): void {
+  store.flush();
+  store = new JsonFileStore<PlayerEventsDocument>(filePath, {});
+}
+
+/**
+ * Register a listener for player events
+ * @returns Function that removes the listener
+ */
+export function onPlayerEvent(listener: PlayerEventListener): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index >= 0) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Emit an event to every listener
+ * @param type - Event type
+ * @param puuid - Player the event is about
+ * @param data - Event payload
+ * @param now - When the change was detected, in milliseconds
+ */
+export function emitPlayerEvent<T extends PlayerEventType>(type: T, puuid: string, data: PlayerEventData[T], now: number = Date.now()): PlayerEvent {
+  const event = { id: randomUUID(), type, puuid, occurredAt: new Date(now).toISOString(), data } as PlayerEvent;
+  logger.debug('Player event', { type, puuid });
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error('Player event listener failed', { type, error });
+    }
+  }
+  return event;
+}
+
+/**
+ * Record a player's summoner level, emitting summoner.level_changed if it differs from the last one seen
+ */
+export function observeSummonerLevel(puuid: string, summonerLevel: number, now: number = Date.now()): void {
+  const previous = store.data[puuid]?.summonerLevel;
+  if (previous === summonerLevel) {
+    return;
+  }
+  store.update(players => {
+    (players[puuid] ??= {}).summonerLevel = summonerLevel;
+  });
+  if (previous !== undefined) {
+    emitPlayerEvent('summoner.level_changed', puuid, { previous, current: summonerLevel }, now);
+  }
+}
+
+/**
+ * Record that a player was seen in an active game, emitting game.started the first time each game is seen
+ */
+export function observeActiveGame(puuid: string, game: PlayerEventData['game.started'], now: number = Date.now()): void {
+  if (store.data[puuid]?.gameId === game.gameId) {
+    return;
+  }
+  store.update(players => {
+    (players[puuid] ??= {}).gameId = game.gameId;
+  });
+  emitPlayerEvent('game.started', puuid, game, now);
+}
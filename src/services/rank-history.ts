@@ -0,0 +1,191 @@
+/**
+ * Rank history service
+ * Stores timestamped League-V4 snapshots per player and queue, and derives LP changes,
+ * promotions and demotions for progress graphs
+ */
+
+import type { LeagueEntryDto } from '../types/index.js';
+import { JsonFileStore } from '../utils/json-file-store.js';
+import { compareDivisions, getRankScore } from '../utils/rank.js';
+import { emitPlayerEvent } from './player-events.js';
+
+export interface RankSnapshot {
+  /** When the entry was fetched (epoch milliseconds) */
+  timestamp: number;
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+}
+
+export interface RankHistoryPoint {
+  timestamp: string;
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+  /** LP gained or lost since the previous snapshot, across division boundaries (null for the first) */
+  lpDelta: number | null;
+  /** Games played since the previous snapshot (null for the first) */
+  gamesDelta: number | null;
+  /** Whether the tier or division changed since the previous snapshot */
+  change: 'promotion' | 'demotion' | null;
+}
+
+export interface RankHistory {
+  puuid: string;
+  queueType: string;
+  points: RankHistoryPoint[];
+  summary: {
+    snapshots: number;
+    promotions: number;
+    demotions: number;
+    /** Net LP change from the first to the latest snapshot */
+    netLp: number;
+  };
+}
+
+/**
+ * Snapshots per player, keyed by PUUID and then queue type
+ */
+type RankHistoryDocument = Record<string, Record<string, RankSnapshot[]>>;
+
+/**
+ * Oldest snapshots are dropped beyond this many per player and queue
+ */
+const MAX_SNAPSHOTS_PER_QUEUE = 1000;
+
+let store = new JsonFileStore<RankHistoryDocument>(null, {});
+
+/**
+ * Persist rank history to a JSON file (in memory only until this is called)
+ * @param filePath - Where snapshots are stored, or null to keep them in memory
+ */
+export function configureRankHistory(filePath: string | null): void {
+  store.flush();
+  store = new JsonFileStore<RankHistoryDocument>(filePath, {});
+}
+
+function isSameRank(a: RankSnapshot, b: RankSnapshot): boolean {
+  return a.tier === b.tier && a.rank === b.rank && a.leaguePoints === b.leaguePoints
+    && a.wins === b.wins && a.losses === b.losses;
+}
+
+/**
+ * Record fetched league entries as snapshots, skipping queues whose entry has not changed
+ * Emits rank.promoted or rank.demoted when the tier or division differs from the previous snapshot
+ * @param puuid - Player the entries belong to
+ * @param entries - League-V4 entries as fetched
+ * @param now - Time of the fetch in milliseconds
+ * @returns Number of new snapshots stored
+ */
+export function recordLeagueEntries(puuid: string, entries: LeagueEntryDto[], now: number = Date.now()): number {
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  const rankChanges: { queueType: string; previous: RankSnapshot; current: RankSnapshot }[] = [];
+
+  const recorded = store.update(history => {
+    const queues = history[puuid] ??= {};
+    let recorded = 0;
+
+    for (const entry of entries) {
+      const snapshot: RankSnapshot = {
+        timestamp: now,
+        tier: entry.tier,
+        rank: entry.rank,
+        leaguePoints: entry.leaguePoints,
+        wins: entry.wins,
+        losses: entry.losses
+      };
+      const snapshots = queues[entry.queueType] ??= [];
+      const latest = snapshots[snapshots.length - 1];
+      if (latest && isSameRank(latest, snapshot)) {
+        continue;
+      }
+
+      if (latest && compareDivisions(snapshot, latest) !== 0) {
+        rankChanges.push({ queueType: entry.queueType, previous: latest, current: snapshot });
+      }
+      snapshots.push(snapshot);
+      if (snapshots.length > MAX_SNAPSHOTS_PER_QUEUE) {
+        snapshots.splice(0, snapshots.length - MAX_SNAPSHOTS_PER_QUEUE);
+      }
+      recorded++;
+    }
+
+    return recorded;
+  });
+
+  for (const { queueType, previous, current } of rankChanges) {
+    emitPlayerEvent(compareDivisions(current, previous) > 0 ? 'rank.promoted' : 'rank.demoted', puuid, {
+      queueType,
+      previous: { tier: previous.tier, rank: previous.rank, leaguePoints: previous.leaguePoints },
+      current: { tier: current.tier, rank: current.rank, leaguePoints: current.leaguePoints }
+    }, now);
+  }
+
+  return recorded;
+}
+
+/**
+ * Get a player's rank history for one queue with derived changes between snapshots
+ * @param puuid - Player's PUUID
+ * @param queueType - Queue type (e.g., RANKED_SOLO_5x5)
+ * @returns History ordered oldest first (empty if nothing was recorded)
+ */
+export function getRankHistory(puuid: string, queueType: string): RankHistory {
+  const snapshots = store.data[puuid]?.[queueType] ?? [];
+  let promotions = 0;
+  let demotions = 0;
+
+  const points = snapshots.map((snapshot, index): RankHistoryPoint => {
+    const previous = index > 0 ? snapshots[index - 1] : undefined;
+    let change: RankHistoryPoint['change'] = null;
+
+    if (previous) {
+      const rankChange = compareDivisions(snapshot, previous);
+      if (rankChange > 0) {
+        change = 'promotion';
+        promotions++;
+      } else if (rankChange < 0) {
+        change = 'demotion';
+        demotions++;
+      }
+    }
+
+    return {
+      timestamp: new Date(snapshot.timestamp).toISOString(),
+      tier: snapshot.tier,
+      rank: snapshot.rank,
+      leaguePoints: snapshot.leaguePoints,
+      wins: snapshot.wins,
+      losses: snapshot.losses,
+      lpDelta: previous
+        ? getRankScore(snapshot.tier, snapshot.rank, snapshot.leaguePoints) - getRankScore(previous.tier, previous.rank, previous.leaguePoints)
+        : null,
+      gamesDelta: previous ? (snapshot.wins + snapshot.losses) - (previous.wins + previous.losses) : null,
+      change
+    };
+  });
+
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+
+  return {
+    puuid,
+    queueType,
+    points,
+    summary: {
+      snapshots: points.length,
+      promotions,
+      demotions,
+      netLp: first && latest
+        ? getRankScore(latest.tier, latest.rank, latest.leaguePoints) - getRankScore(first.tier, first.rank, first.leaguePoints)
+        : 0
+    }
+  };
+}
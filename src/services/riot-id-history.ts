@@ -0,0 +1,77 @@
+/**
+ * Riot ID history service
+ * Keeps every gameName#tagLine seen for a PUUID with when it was first and last seen,
+ * and emits account.riot_id_changed when a player's current Riot ID changes
+ */
+
+import { JsonFileStore } from '../utils/json-file-store.js';
+import { emitPlayerEvent } from './player-events.js';
+
+export interface RiotIdRecord {
+  riotId: string;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/**
+ * Records per player, keyed by PUUID, oldest first (the last record is the current Riot ID)
+ */
+type RiotIdHistoryDocument = Record<string, RiotIdRecord[]>;
+
+let store = new JsonFileStore<RiotIdHistoryDocument>(null, {});
+
+/**
+ * Persist Riot ID history to a JSON file (in memory only until this is called)
+ * @param filePath - Where history is stored, or null to keep it in memory
+ */
+export function configureRiotIdHistory(filePath: string | null): void {
+  store.flush();
+  store = new JsonFileStore<RiotIdHistoryDocument>(filePath, {});
+}
+
+/**
+ * Riot IDs are case-insensitive, so "Faker#KR1" and "faker#kr1" are the same Riot ID
+ */
+function isSameRiotId(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Record the Riot ID a PUUID currently has
+ * @param puuid - Player's PUUID
+ * @param riotId - Riot ID as returned by Account V1
+ * @param now - When the Riot ID was seen, in milliseconds
+ * @returns The previous Riot ID if the player was renamed, otherwise null
+ */
+export function recordRiotId(puuid: string, riotId: string, now: number = Date.now()): string | null {
+  const seenAt = new Date(now).toISOString();
+
+  const previous = store.update(history => {
+    const records = history[puuid] ??= [];
+    const current = records[records.length - 1];
+
+    if (current && isSameRiotId(current.riotId, riotId)) {
+      current.riotId = riotId;
+      current.lastSeen = seenAt;
+      return null;
+    }
+
+    // A player can rename back to an earlier Riot ID; move that record to the end
+    const earlier = records.findIndex(record => isSameRiotId(record.riotId, riotId));
+    const [record] = earlier >= 0 ? records.splice(earlier, 1) : [{ riotId, firstSeen: seenAt, lastSeen: seenAt }];
+    records.push({ ...record!, riotId, lastSeen: seenAt });
+    return current?.riotId ?? null;
+  });
+
+  if (previous) {
+    emitPlayerEvent('account.riot_id_changed', puuid, { previous, current: riotId }, now);
+  }
+  return previous;
+}
+
+/**
+ * Get every Riot ID seen for a player, most recent first
+ */
+export function getRiotIdHistory(puuid: string): RiotIdRecord[] {
+  return [...(store.data[puuid] ?? [])].reverse();
+}
@@ -0,0 +1,331 @@
+/**
+ * Teamfight Tactics service
+ * Resolves a Riot ID into a TFT profile (summoner and ranked queues) and summarizes recent TFT matches,
+ * using the same platform discovery and cache as League of Legends lookups
+ */
+
+import type { RiotClient } from '../api/riot-client.js';
+import type { Platform, Region, TftLeagueEntryDto, TftMatchDto, TftMatchIdsQuery } from '../types/index.js';
+import { RiotIdParser } from '../utils/riot-id-parser.js';
+import {
+  queryTftSummonerAcrossPlatforms,
+  queryTftLeagueEntriesAcrossPlatforms
+} from '../utils/parallel-queries.js';
+import type { PlatformQueryOptions } from '../utils/parallel-queries.js';
+import { getWinRate } from '../utils/rank.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { createLogger } from '../utils/logger.js';
+import { CacheService, CacheKeys, CacheTTL } from './cache.js';
+import { getLeagueQueueName, serializeMatchIdsQuery, MATCH_FETCH_CONCURRENCY } from './matches.js';
+
+const logger = createLogger('tft');
+
+/**
+ * Human-readable names for TFT queue IDs
+ * See https://static.developer.riotgames.com/docs/lol/queues.json
+ */
+export const TFT_QUEUE_NAMES: Record<number, string> = {
+  1090: 'Normal TFT',
+  1100: 'Ranked TFT',
+  1110: 'TFT Tutorial',
+  1130: 'Hyper Roll',
+  1160: 'Double Up',
+  1210: "Choncc's Treasure"
+};
+
+export interface TftRankedEntry {
+  queueType: string;
+  queueName: string;
+  /** Tier, division and LP, or null for Hyper Roll */
+  tier: string | null;
+  rank: string | null;
+  leaguePoints: number | null;
+  /** Hyper Roll rating tier and rating, or null for other queues */
+  ratedTier: string | null;
+  ratedRating: number | null;
+  /** Top four finishes (TFT-League-V1 counts these as wins) */
+  wins: number;
+  losses: number;
+  top4Rate: number;
+  hotStreak: boolean;
+}
+
+export interface TftProfile {
+  puuid: string;
+  gameName: string;
+  tagLine: string;
+  summonerLevel: number;
+  profileIconId: number;
+  /** Every TFT league entry, keyed by queue type (RANKED_TFT, RANKED_TFT_DOUBLE_UP, RANKED_TFT_TURBO) */
+  queues: Record<string, TftRankedEntry>;
+  platform: Platform;
+}
+
+export interface TftProfileLookupOptions extends PlatformQueryOptions {
+  /** Bypass the cache and repopulate it with fresh data */
+  refresh?: boolean;
+}
+
+export interface TftProfileLookupResult {
+  data: TftProfile;
+  cached: boolean;
+  /** When the profile was fetched from Riot (epoch milliseconds) */
+  cachedAt: number;
+  /** When the cached profile expires (epoch milliseconds) */
+  expiresAt: number;
+}
+
+export interface TftMatchSummary {
+  matchId: string;
+  queueId: number;
+  queueName: string;
+  setNumber: number;
+  gameDatetime: number;
+  /** Game length in seconds */
+  gameLength: number;
+  placement: number;
+  top4: boolean;
+  level: number;
+  lastRound: number;
+  playersEliminated: number;
+  damageToPlayers: number;
+  goldLeft: number;
+  /** Active traits, highest style first */
+  traits: { id: string; name: string; units: number; style: number; tier: number; tierTotal: number }[];
+  /** Final board, highest star level and rarity first */
+  units: { characterId: string; name: string; starLevel: number; rarity: number; items: string[] }[];
+}
+
+export interface TftMatchFetchResult {
+  /** Matches that were fetched, in the same order as the requested IDs */
+  matches: TftMatchDto[];
+  /** Matches that could not be fetched (e.g., rate limited or unavailable) */
+  failedMatchIds: string[];
+}
+
+interface CachedTftProfile {
+  data: TftProfile;
+  cachedAt: number;
+}
+
+/**
+ * TFT profile resolutions in progress, shared by identical concurrent lookups
+ */
+const lookups = new SingleFlight();
+
+/**
+ * Get the display name for a TFT queue ID
+ * @param queueId - Queue ID from TFT match info
+ * @returns Queue name, or a generic label for unknown queues
+ */
+export function getTftQueueName(queueId: number): string {
+  return TFT_QUEUE_NAMES[queueId] ?? `Queue ${queueId}`;
+}
+
+/**
+ * Strip the set prefix from a TFT unit, trait or item ID (e.g., TFT13_Jinx -> Jinx, Set13_Sniper -> Sniper)
+ */
+export function getTftDisplayName(id: string): string {
+  return id.replace(/^(TFT\d*_Item_|TFT\d*[A-Za-z]?_|Set\d+[A-Za-z]?_)/, '');
+}
+
+function toTftRankedEntry(entry: TftLeagueEntryDto): TftRankedEntry {
+  return {
+    queueType: entry.queueType,
+    queueName: getLeagueQueueName(entry.queueType),
+    tier: entry.tier ?? null,
+    rank: entry.rank ?? null,
+    leaguePoints: entry.leaguePoints ?? null,
+    ratedTier: entry.ratedTier ?? null,
+    ratedRating: entry.ratedRating ?? null,
+    wins: entry.wins,
+    losses: entry.losses,
+    top4Rate: getWinRate(entry.wins, entry.losses),
+    hotStreak: entry.hotStreak ?? false
+  };
+}
+
+/**
+ * Get the TFT profile for a Riot ID, serving it from the cache when possible
+ * @param riotId - Riot ID in format "gameName#tagLine"
+ * @param region - Region for Account V1 and platform discovery
+ * @param riotClient - Riot API client
+ * @param options - Optional explicit platform to skip discovery, or refresh to bypass the cache
+ * @returns TFT profile, whether it came from the cache, and when it was cached and expires
+ */
+export async function getTftProfile(
+  riotId: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: TftProfileLookupOptions = {}
+): Promise<TftProfileLookupResult> {
+  const key = [riotId, region, options.platform ?? '', options.refresh ? 'refresh' : ''].join(':');
+  return lookups.do(key, () => resolveTftProfile(riotId, region, riotClient, options));
+}
+
+async function resolveTftProfile(
+  riotId: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: TftProfileLookupOptions
+): Promise<TftProfileLookupResult> {
+  const { gameName, tagLine } = RiotIdParser.parse(riotId);
+  const { refresh, ...platformOptions } = options;
+  const cacheKey = CacheKeys.tftAccount(riotId, region);
+
+  const cachedEntry = refresh ? undefined : CacheService.get<CachedTftProfile>(cacheKey);
+  if (cachedEntry) {
+    logger.debug('TFT profile cache hit', { cacheKey });
+    const expiresAt = CacheService.getExpiry(cacheKey) ?? cachedEntry.cachedAt + CacheTTL.account * 1000;
+    return { data: cachedEntry.data, cached: true, cachedAt: cachedEntry.cachedAt, expiresAt };
+  }
+
+  const account = await riotClient.getAccountByRiotId(gameName, tagLine, region);
+  const summonerResult = await queryTftSummonerAcrossPlatforms(account.puuid, region, riotClient, platformOptions);
+
+  // League entries live on the same platform as the summoner
+  let leagueEntries: TftLeagueEntryDto[] = [];
+  try {
+    const leagueResult = await queryTftLeagueEntriesAcrossPlatforms(account.puuid, region, riotClient, {
+      platform: summonerResult.platform
+    });
+    leagueEntries = leagueResult.data;
+  } catch (error: unknown) {
+    logger.warn('TFT-League-V1 not available', { platform: summonerResult.platform, error });
+  }
+
+  const profile: TftProfile = {
+    puuid: account.puuid,
+    gameName: account.gameName,
+    tagLine: account.tagLine,
+    summonerLevel: summonerResult.data.summonerLevel,
+    profileIconId: summonerResult.data.profileIconId,
+    queues: Object.fromEntries(leagueEntries.map(entry => [entry.queueType, toTftRankedEntry(entry)])),
+    platform: summonerResult.platform
+  };
+
+  const cachedAt = Date.now();
+  CacheService.set<CachedTftProfile>(cacheKey, { data: profile, cachedAt }, CacheTTL.account);
+  return {
+    data: profile,
+    cached: false,
+    cachedAt,
+    expiresAt: CacheService.getExpiry(cacheKey) ?? cachedAt + CacheTTL.account * 1000
+  };
+}
+
+/**
+ * Get TFT match IDs for a player, using the short-lived match ID cache
+ * @param puuid - Player's PUUID
+ * @param region - Regional route for TFT-Match-V1
+ * @param query - Time filters and pagination
+ * @param riotClient - Riot API client
+ * @returns Array of match IDs, most recent first
+ */
+export async function getTftMatchIds(
+  puuid: string,
+  region: Region,
+  query: TftMatchIdsQuery,
+  riotClient: RiotClient
+): Promise<string[]> {
+  const cacheKey = CacheKeys.tftMatchIds(puuid, region, serializeMatchIdsQuery(query));
+  const cached = CacheService.get<string[]>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const matchIds = await riotClient.getTftMatchIdsByPuuid(puuid, region, query);
+  CacheService.set(cacheKey, matchIds, CacheTTL.matchIds);
+  return matchIds;
+}
+
+/**
+ * Get TFT match details, using the match cache
+ * @param matchId - Match ID
+ * @param region - Regional route for TFT-Match-V1
+ * @param riotClient - Riot API client
+ * @returns Full match details
+ */
+export async function getTftMatch(matchId: string, region: Region, riotClient: RiotClient): Promise<TftMatchDto> {
+  const cached = CacheService.getCachedTftMatch(matchId);
+  if (cached) {
+    return cached;
+  }
+
+  const match = await riotClient.getTftMatchById(matchId, region);
+  CacheService.cacheTftMatch(matchId, match);
+  return match;
+}
+
+/**
+ * Get details for several TFT matches a few at a time, skipping matches that fail instead of rejecting
+ * @param matchIds - Match IDs to fetch
+ * @param region - Regional route for TFT-Match-V1
+ * @param riotClient - Riot API client
+ * @returns Fetched matches and the IDs of those that failed
+ */
+export async function getTftMatchesSettled(matchIds: string[], region: Region, riotClient: RiotClient): Promise<TftMatchFetchResult> {
+  const results = await mapWithConcurrency(matchIds, MATCH_FETCH_CONCURRENCY, async (matchId) => {
+    try {
+      return await getTftMatch(matchId, region, riotClient);
+    } catch (error) {
+      logger.warn('Skipping TFT match that could not be fetched', { matchId, error });
+      return null;
+    }
+  });
+
+  return {
+    matches: results.filter((match): match is TftMatchDto => match !== null),
+    failedMatchIds: matchIds.filter((_, index) => results[index] === null)
+  };
+}
+
+/**
+ * Summarize a TFT match from one player's point of view
+ * @param match - Full match details
+ * @param puuid - PUUID of the player to summarize
+ * @returns Match summary, or null if the player did not take part
+ */
+export function summarizeTftMatch(match: TftMatchDto, puuid: string): TftMatchSummary | null {
+  const participant = match.info.participants.find(p => p.puuid === puuid);
+  if (!participant) {
+    return null;
+  }
+
+  return {
+    matchId: match.metadata.match_id,
+    queueId: match.info.queue_id,
+    queueName: getTftQueueName(match.info.queue_id),
+    setNumber: match.info.tft_set_number,
+    gameDatetime: match.info.game_datetime,
+    gameLength: Math.round(match.info.game_length),
+    placement: participant.placement,
+    top4: participant.placement <= 4,
+    level: participant.level,
+    lastRound: participant.last_round,
+    playersEliminated: participant.players_eliminated,
+    damageToPlayers: participant.total_damage_to_players,
+    goldLeft: participant.gold_left,
+    traits: participant.traits
+      .filter(trait => trait.tier_current > 0)
+      .sort((a, b) => b.style - a.style || b.num_units - a.num_units)
+      .map(trait => ({
+        id: trait.name,
+        name: getTftDisplayName(trait.name),
+        units: trait.num_units,
+        style: trait.style,
+        tier: trait.tier_current,
+        tierTotal: trait.tier_total
+      })),
+    units: [...participant.units]
+      .sort((a, b) => b.tier - a.tier || b.rarity - a.rarity)
+      .map(unit => ({
+        characterId: unit.character_id,
+        name: getTftDisplayName(unit.character_id),
+        starLevel: unit.tier,
+        rarity: unit.rarity,
+        items: (unit.itemNames ?? []).map(getTftDisplayName)
+      }))
+  };
+}
@@ -0,0 +1,391 @@
+/**
+ * Watchlist service
+ * Keeps a locally persisted list of followed players and polls them in the background,
+ * recording rank, level and new-game changes
+ */
+
+import { randomUUID } from 'crypto';
+import type { RiotClient } from '../api/riot-client.js';
+import { RetryPolicies } from '../api/retry.js';
+import type { LeagueEntryDto, Platform, Region } from '../types/index.js';
+import { RiotIdParser } from '../utils/riot-id-parser.js';
+import { querySummonerAcrossPlatforms } from '../utils/parallel-queries.js';
+import { JsonFileStore } from '../utils/json-file-store.js';
+import { createLogger } from '../utils/logger.js';
+import { recordLeagueEntries } from './rank-history.js';
+import { observeSummonerLevel } from './player-events.js';
+import { getRiotIdByPuuid } from './account.js';
+
+const logger = createLogger('watchlist');
+
+export interface WatchedRank {
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+  wins: number;
+  losses: number;
+}
+
+export interface WatchedPlayerState {
+  summonerLevel: number;
+  /** Ranked entries keyed by queue type */
+  ranked: Record<string, WatchedRank>;
+  latestMatchId: string | null;
+}
+
+export interface WatchedPlayer {
+  puuid: string;
+  riotId: string;
+  region: Region;
+  platform: Platform;
+  addedAt: string;
+  lastPolledAt: string | null;
+  lastError: string | null;
+  /** State from the last successful poll, null until the first poll */
+  state: WatchedPlayerState | null;
+}
+
+interface WatchlistChangeBase {
+  id: string;
+  puuid: string;
+  riotId: string;
+  detectedAt: string;
+}
+
+export type WatchlistChange = WatchlistChangeBase & (
+  | { type: 'level'; previous: number; current: number }
+  | { type: 'rank'; queueType: string; previous: WatchedRank | null; current: WatchedRank | null }
+  | { type: 'newGame'; previous: string | null; current: string }
+);
+
+/**
+ * Called with the changes found for a player after each poll
+ */
+export type WatchlistListener = (changes: WatchlistChange[], player: WatchedPlayer) => void;
+
+interface WatchlistDocument {
+  players: Record<string, WatchedPlayer>;
+  changes: WatchlistChange[];
+}
+
+/**
+ * Watchlist is already at its configured size
+ */
+export class WatchlistFullError extends Error {
+  constructor(public readonly maxPlayers: number) {
+    super(`The watchlist can contain at most ${maxPlayers} players`);
+    this.name = 'WatchlistFullError';
+  }
+}
+
+/**
+ * Only the most recent changes are kept
+ */
+const MAX_STORED_CHANGES = 1000;
+
+let store = new JsonFileStore<WatchlistDocument>(null, { players: {}, changes: [] });
+const listeners: WatchlistListener[] = [];
+
+/**
+ * Persist the watchlist to a JSON file (in memory only until this is called)
+ * @param filePath - Where the watchlist is stored, or null to keep it in memory
+ */
+export function configureWatchlist(filePath: string | null): void {
+  store.flush();
+  store = new JsonFileStore<WatchlistDocument>(filePath, { players: {}, changes: [] });
+}
+
+/**
+ * Register a listener for changes detected by polling
+ * @returns Function that removes the listener
+ */
+export function onWatchlistChange(listener: WatchlistListener): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index >= 0) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Get all watched players, in the order they were added
+ */
+export function getWatchedPlayers(): WatchedPlayer[] {
+  return Object.values(store.data.players);
+}
+
+/**
+ * Get a watched player by PUUID
+ */
+export function getWatchedPlayer(puuid: string): WatchedPlayer | null {
+  return store.data.players[puuid] ?? null;
+}
+
+/**
+ * Get recorded changes, most recent first
+ * @param options - Optional PUUID filter, lower time bound and limit
+ */
+export function getWatchlistChanges(options: { puuid?: string; since?: number; limit?: number } = {}): WatchlistChange[] {
+  return store.data.changes
+    .filter(change => !options.puuid || change.puuid === options.puuid)
+    .filter(change => options.since === undefined || Date.parse(change.detectedAt) >= options.since)
+    .reverse()
+    .slice(0, options.limit ?? 100);
+}
+
+/**
+ * Add a player to the watchlist by Riot ID, resolving their PUUID and platform
+ * @param riotId - Riot ID in format "gameName#tagLine"
+ * @param region - Region for Account V1 and platform discovery
+ * @param riotClient - Riot API client
+ * @param maxPlayers - Maximum watchlist size
+ * @returns The watched player, and whether it was newly added
+ * @throws WatchlistFullError if the watchlist is full
+ */
+export async function addWatchedPlayer(
+  riotId: string,
+  region: Region,
+  riotClient: RiotClient,
+  maxPlayers: number
+): Promise<{ player: WatchedPlayer; added: boolean }> {
+  const { gameName, tagLine } = RiotIdParser.parse(riotId);
+  const account = await riotClient.getAccountByRiotId(gameName, tagLine, region);
+
+  const existing = getWatchedPlayer(account.puuid);
+  if (existing) {
+    return { player: existing, added: false };
+  }
+  if (getWatchedPlayers().length >= maxPlayers) {
+    throw new WatchlistFullError(maxPlayers);
+  }
+
+  const summoner = await querySummonerAcrossPlatforms(account.puuid, region, riotClient);
+  const player: WatchedPlayer = {
+    puuid: account.puuid,
+    riotId: RiotIdParser.format({ gameName: account.gameName, tagLine: account.tagLine }),
+    region,
+    platform: summoner.platform,
+    addedAt: new Date().toISOString(),
+    lastPolledAt: null,
+    lastError: null,
+    state: null
+  };
+
+  store.update(data => {
+    data.players[player.puuid] = player;
+  });
+  logger.info('Player added to watchlist', { riotId: player.riotId, platform: player.platform });
+  return { player, added: true };
+}
+
+/**
+ * Remove a player from the watchlist
+ * @returns true if the player was being watched
+ */
+export function removeWatchedPlayer(puuid: string): boolean {
+  if (!getWatchedPlayer(puuid)) {
+    return false;
+  }
+  store.update(data => {
+    delete data.players[puuid];
+  });
+  return true;
+}
+
+function toWatchedRank(entry: LeagueEntryDto): WatchedRank {
+  return {
+    tier: entry.tier,
+    rank: entry.rank,
+    leaguePoints: entry.leaguePoints,
+    wins: entry.wins,
+    losses: entry.losses
+  };
+}
+
+function isSameRank(a: WatchedRank | null, b: WatchedRank | null): boolean {
+  return a?.tier === b?.tier && a?.rank === b?.rank && a?.leaguePoints === b?.leaguePoints;
+}
+
+/**
+ * Compare two polled states and describe what changed
+ */
+function diffStates(player: WatchedPlayer, previous: WatchedPlayerState, current: WatchedPlayerState, now: number): WatchlistChange[] {
+  const base = () => ({ id: randomUUID(), puuid: player.puuid, riotId: player.riotId, detectedAt: new Date(now).toISOString() });
+  const changes: WatchlistChange[] = [];
+
+  if (current.summonerLevel !== previous.summonerLevel) {
+    changes.push({ ...base(), type: 'level', previous: previous.summonerLevel, current: current.summonerLevel });
+  }
+
+  for (const queueType of new Set([...Object.keys(previous.ranked), ...Object.keys(current.ranked)])) {
+    const before = previous.ranked[queueType] ?? null;
+    const after = current.ranked[queueType] ?? null;
+    if (!isSameRank(before, after)) {
+      changes.push({ ...base(), type: 'rank', queueType, previous: before, current: after });
+    }
+  }
+
+  if (current.latestMatchId && current.latestMatchId !== previous.latestMatchId) {
+    changes.push({ ...base(), type: 'newGame', previous: previous.latestMatchId, current: current.latestMatchId });
+  }
+
+  return changes;
+}
+
+/**
+ * Refresh one watched player's Riot ID, summoner, league and latest match, and record what changed
+ * Uses the background retry policy, since nobody is waiting on the result
+ * @param puuid - Watched player's PUUID
+ * @param riotClient - Riot API client
+ * @param now - Poll time in milliseconds
+ * @returns Changes detected (none on the first poll, which only records the baseline)
+ */
+export async function pollWatchedPlayer(puuid: string, riotClient: RiotClient, now: number = Date.now()): Promise<WatchlistChange[]> {
+  const player = getWatchedPlayer(puuid);
+  if (!player) {
+    return [];
+  }
+
+  const options = { retry: RetryPolicies.background };
+  let current: WatchedPlayerState;
+  let riotId: string;
+
+  try {
+    riotId = await getRiotIdByPuuid(puuid, player.region, riotClient);
+    const summoner = await riotClient.getSummonerByPuuid(puuid, player.platform, options);
+    const entries = await riotClient.getLeagueEntriesbyEncryptedPUUID(puuid, player.platform, options);
+    const [latestMatchId] = await riotClient.getMatchIdsByPuuid(puuid, player.region, { count: 1 }, options);
+
+    recordLeagueEntries(puuid, entries, now);
+    observeSummonerLevel(puuid, summoner.summonerLevel, now);
+    current = {
+      summonerLevel: summoner.summonerLevel,
+      ranked: Object.fromEntries(entries.map(entry => [entry.queueType, toWatchedRank(entry)])),
+      latestMatchId: latestMatchId ?? null
+    };
+  } catch (error) {
+    logger.warn('Watchlist poll failed', { riotId: player.riotId, error });
+    store.update(data => {
+      const stored = data.players[puuid];
+      if (stored) {
+        stored.lastPolledAt = new Date(now).toISOString();
+        stored.lastError = (error as Error).message;
+      }
+    });
+    return [];
+  }
+
+  if (riotId !== player.riotId) {
+    logger.info('Watched player renamed', { previous: player.riotId, riotId });
+  }
+  const changes = player.state ? diffStates({ ...player, riotId }, player.state, current, now) : [];
+
+  const updated = store.update(data => {
+    const stored = data.players[puuid];
+    if (!stored) {
+      // Removed while the poll was in flight
+      return null;
+    }
+    stored.riotId = riotId;
+    stored.state = current;
+    stored.lastPolledAt = new Date(now).toISOString();
+    stored.lastError = null;
+    data.changes.push(...changes);
+    if (data.changes.length > MAX_STORED_CHANGES) {
+      data.changes.splice(0, data.changes.length - MAX_STORED_CHANGES);
+    }
+    return stored;
+  });
+
+  if (updated && changes.length > 0) {
+    logger.info('Watchlist changes detected', { riotId: updated.riotId, types: changes.map(change => change.type) });
+    for (const listener of listeners) {
+      try {
+        listener(changes, updated);
+      } catch (error) {
+        logger.error('Watchlist listener failed', { error });
+      }
+    }
+  }
+
+  return updated ? changes : [];
+}
+
+/**
+ * Polls watched players one at a time, spread evenly over the poll interval
+ * With N players, a poll runs every interval / N, always picking the player polled longest ago,
+ * so background traffic stays steady instead of bursting against the rate limits
+ */
+export class WatchlistPoller {
+  private _timer: NodeJS.Timeout | null = null;
+  private _polling = false;
+  /** Incremented by start and stop, so a poll that finishes after a restart does not keep its old scheduling chain going */
+  private _generation = 0;
+  private _running = false;
+
+  constructor(private _riotClient: RiotClient, private _intervalMs: number) {}
+
+  start(): void {
+    if (!this._running) {
+      this._running = true;
+      this._scheduleNext(++this._generation);
+    }
+  }
+
+  stop(): void {
+    this._running = false;
+    this._generation++;
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this._running;
+  }
+
+  /**
+   * Poll the player that is most overdue, if any is due
+   * @param now - Current time in milliseconds
+   * @returns PUUID of the polled player, or null if none was due
+   */
+  async pollNext(now: number = Date.now()): Promise<string | null> {
+    if (this._polling) {
+      return null;
+    }
+
+    const due = getWatchedPlayers()
+      .filter(player => !player.lastPolledAt || now - Date.parse(player.lastPolledAt) >= this._intervalMs)
+      .sort((a, b) => (a.lastPolledAt ? Date.parse(a.lastPolledAt) : 0) - (b.lastPolledAt ? Date.parse(b.lastPolledAt) : 0));
+    const next = due[0];
+    if (!next) {
+      return null;
+    }
+
+    this._polling = true;
+    try {
+      await pollWatchedPlayer(next.puuid, this._riotClient, now);
+    } finally {
+      this._polling = false;
+    }
+    return next.puuid;
+  }
+
+  private _scheduleNext(generation: number): void {
+    const delay = this._intervalMs / Math.max(1, getWatchedPlayers().length);
+    this._timer = setTimeout(() => {
+      this._timer = null;
+      this.pollNext()
+        .catch((error: Error) => logger.error('Watchlist poll failed', { error }))
+        .finally(() => {
+          if (generation === this._generation) {
+            this._scheduleNext(generation);
+          }
+        });
+    }, delay);
+    this._timer.unref();
+  }
+}
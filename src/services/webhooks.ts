@@ -0,0 +1,362 @@
+/**
+ * Webhook service
+ * Delivers player events to subscribed URLs as HMAC-signed JSON, retrying failed deliveries
+ * with exponential backoff and keeping a log of recent deliveries
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { JsonFileStore } from '../utils/json-file-store.js';
+import { createLogger } from '../utils/logger.js';
+import { onPlayerEvent } from './player-events.js';
+import type { PlayerEvent, PlayerEventType } from './player-events.js';
+
+const logger = createLogger('webhooks');
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: PlayerEventType[];
+  /** Only deliver events about these players, or null for every player */
+  puuids: string[] | null;
+  /** Shared secret used to sign deliveries (never returned by the API) */
+  secret: string;
+  createdAt: string;
+}
+
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: PlayerEvent;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  /** HTTP status of the last attempt, or null if no response was received */
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  /** When the next retry is due, for pending deliveries */
+  nextAttemptAt: string | null;
+}
+
+export interface WebhookOptions {
+  /** Total delivery attempts before a delivery is marked failed */
+  maxAttempts: number;
+  /** Timeout for a single delivery request */
+  timeoutMs: number;
+  /** Delay before the first retry; doubles with each further retry */
+  retryBaseDelayMs: number;
+  /** Allow URLs that resolve to private, loopback or link-local addresses (local development only) */
+  allowPrivateDestinations: boolean;
+}
+
+/**
+ * Thrown when a webhook URL points at a destination the server must not send requests to
+ */
+export class WebhookDestinationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookDestinationError';
+  }
+}
+
+interface WebhooksDocument {
+  subscriptions: Record<string, WebhookSubscription>;
+  deliveries: WebhookDelivery[];
+}
+
+/**
+ * Only the most recent deliveries are kept in the log
+ */
+const MAX_STORED_DELIVERIES = 1000;
+
+/**
+ * Loopback, private, link-local (including cloud metadata at 169.254.169.254), shared, multicast and reserved ranges
+ */
+const blockedDestinations = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  blockedDestinations.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  blockedDestinations.addSubnet(network, prefix, 'ipv6');
+}
+
+let options: WebhookOptions = { maxAttempts: 5, timeoutMs: 5000, retryBaseDelayMs: 10000, allowPrivateDestinations: false };
+let store = new JsonFileStore<WebhooksDocument>(null, { subscriptions: {}, deliveries: [] });
+const retryTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Configure delivery settings and persistence, and resume deliveries left pending by a restart
+ * @param filePath - Where subscriptions and the delivery log are stored, or null to keep them in memory
+ * @param overrides - Delivery settings
+ */
+export function configureWebhooks(filePath: string | null, overrides: Partial<WebhookOptions> = {}): void {
+  for (const timer of retryTimers.values()) {
+    clearTimeout(timer);
+  }
+  retryTimers.clear();
+  store.flush();
+
+  options = { ...options, ...overrides };
+  store = new JsonFileStore<WebhooksDocument>(filePath, { subscriptions: {}, deliveries: [] });
+
+  for (const delivery of store.data.deliveries) {
+    if (delivery.status === 'pending') {
+      scheduleAttempt(delivery.id, delivery.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0);
+    }
+  }
+}
+
+/**
+ * Deliver every player event to matching subscriptions
+ * @returns Function that stops dispatching
+ */
+export function startWebhookDispatch(): () => void {
+  return onPlayerEvent(event => {
+    dispatchEvent(event);
+  });
+}
+
+function toView({ secret: _secret, ...subscription }: WebhookSubscription): WebhookSubscriptionView {
+  return subscription;
+}
+
+/**
+ * Get all subscriptions, without their secrets
+ */
+export function getWebhooks(): WebhookSubscriptionView[] {
+  return Object.values(store.data.subscriptions).map(toView);
+}
+
+/**
+ * Get a subscription by ID, without its secret
+ */
+export function getWebhook(id: string): WebhookSubscriptionView | null {
+  const subscription = store.data.subscriptions[id];
+  return subscription ? toView(subscription) : null;
+}
+
+/**
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 ranges
+ */
+function isBlockedAddress(address: string): boolean {
+  return blockedDestinations.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Check that a webhook URL resolves only to public addresses
+ * Checked when a subscription is registered and again before every delivery, since DNS can change
+ * @throws WebhookDestinationError if the host does not resolve or resolves to a blocked address
+ */
+async function assertPublicDestination(url: string): Promise<void> {
+  if (options.allowPrivateDestinations) {
+    return;
+  }
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new WebhookDestinationError(`Could not resolve ${hostname}`);
+  }
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new WebhookDestinationError(`${hostname} resolves to a private, loopback or link-local address`);
+  }
+}
+
+/**
+ * Register a subscription
+ * @param subscription - Target URL, event types, signing secret and optional PUUID filter
+ * @returns The new subscription, without its secret
+ * @throws WebhookDestinationError if the URL resolves to a private, loopback or link-local address
+ */
+export async function createWebhook(subscription: { url: string; events: PlayerEventType[]; secret: string; puuids?: string[] | null }): Promise<WebhookSubscriptionView> {
+  await assertPublicDestination(subscription.url);
+
+  const created: WebhookSubscription = {
+    id: randomUUID(),
+    url: subscription.url,
+    events: [...new Set(subscription.events)],
+    puuids: subscription.puuids?.length ? subscription.puuids : null,
+    secret: subscription.secret,
+    createdAt: new Date().toISOString()
+  };
+
+  store.update(data => {
+    data.subscriptions[created.id] = created;
+  });
+  logger.info('Webhook registered', { id: created.id, events: created.events });
+  return toView(created);
+}
+
+/**
+ * Remove a subscription and cancel its pending retries
+ * @returns true if the subscription existed
+ */
+export function deleteWebhook(id: string): boolean {
+  if (!store.data.subscriptions[id]) {
+    return false;
+  }
+
+  store.update(data => {
+    delete data.subscriptions[id];
+    for (const delivery of data.deliveries) {
+      if (delivery.subscriptionId === id && delivery.status === 'pending') {
+        delivery.status = 'failed';
+        delivery.lastError = 'Subscription deleted';
+        delivery.nextAttemptAt = null;
+        clearTimeout(retryTimers.get(delivery.id));
+        retryTimers.delete(delivery.id);
+      }
+    }
+  });
+  return true;
+}
+
+/**
+ * Get logged deliveries, most recent first
+ * @param subscriptionId - Only deliveries for this subscription
+ * @param limit - Maximum number of deliveries
+ */
+export function getWebhookDeliveries(subscriptionId?: string, limit: number = 100): WebhookDelivery[] {
+  return store.data.deliveries
+    .filter(delivery => !subscriptionId || delivery.subscriptionId === subscriptionId)
+    .reverse()
+    .slice(0, limit);
+}
+
+/**
+ * Compute the signature sent in the X-Webhook-Signature header
+ * Receivers recompute it over the X-Webhook-Timestamp header and the raw body to verify a delivery
+ * @param secret - Subscription secret
+ * @param timestamp - Unix timestamp in seconds, as sent in X-Webhook-Timestamp
+ * @param body - Raw request body
+ * @returns Signature in the form "sha256=<hex digest>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Queue a delivery of the event to every subscription that wants it
+ * @returns Number of deliveries queued
+ */
+export function dispatchEvent(event: PlayerEvent): number {
+  const subscriptions = Object.values(store.data.subscriptions).filter(subscription =>
+    subscription.events.includes(event.type) && (!subscription.puuids || subscription.puuids.includes(event.puuid))
+  );
+
+  for (const subscription of subscriptions) {
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      subscriptionId: subscription.id,
+      event,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      lastError: null,
+      createdAt: new Date().toISOString(),
+      lastAttemptAt: null,
+      nextAttemptAt: null
+    };
+    store.update(data => {
+      data.deliveries.push(delivery);
+      if (data.deliveries.length > MAX_STORED_DELIVERIES) {
+        data.deliveries.splice(0, data.deliveries.length - MAX_STORED_DELIVERIES);
+      }
+    });
+    scheduleAttempt(delivery.id, 0);
+  }
+
+  return subscriptions.length;
+}
+
+function scheduleAttempt(deliveryId: string, delayMs: number): void {
+  const timer = setTimeout(() => {
+    retryTimers.delete(deliveryId);
+    attemptDelivery(deliveryId).catch((error: Error) => logger.error('Webhook delivery crashed', { deliveryId, error }));
+  }, Math.max(0, delayMs));
+  timer.unref();
+  retryTimers.set(deliveryId, timer);
+}
+
+/**
+ * Client errors other than timeouts and rate limiting will not succeed on retry
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+async function attemptDelivery(deliveryId: string): Promise<void> {
+  const delivery = store.data.deliveries.find(candidate => candidate.id === deliveryId);
+  const subscription = delivery ? store.data.subscriptions[delivery.subscriptionId] : undefined;
+  if (!delivery || delivery.status !== 'pending' || !subscription) {
+    return;
+  }
+
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  let blocked = false;
+
+  try {
+    await assertPublicDestination(subscription.url);
+    // Redirects are not followed, so a subscriber cannot bounce deliveries to an internal host
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'riot-demo-webhooks',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event.type,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body)
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs)
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Subscriber responded with ${response.status}`;
+    }
+  } catch (caught) {
+    error = (caught as Error).message;
+    blocked = caught instanceof WebhookDestinationError;
+  }
+
+  const retryable = error !== null && !blocked && (responseStatus === null || isRetryableStatus(responseStatus));
+  const attempts = delivery.attempts + 1;
+  const retryDelayMs = options.retryBaseDelayMs * 2 ** (attempts - 1);
+
+  store.update(() => {
+    delivery.attempts = attempts;
+    delivery.responseStatus = responseStatus;
+    delivery.lastError = error;
+    delivery.lastAttemptAt = new Date().toISOString();
+    if (error === null) {
+      delivery.status = 'delivered';
+      delivery.nextAttemptAt = null;
+    } else if (retryable && attempts < options.maxAttempts) {
+      delivery.nextAttemptAt = new Date(Date.now() + retryDelayMs).toISOString();
+    } else {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = null;
+    }
+  });
+
+  if (delivery.status === 'pending') {
+    logger.info('Webhook delivery failed, retrying', { deliveryId, attempts, responseStatus, error, retryDelayMs });
+    scheduleAttempt(delivery.id, retryDelayMs);
+  } else if (delivery.status === 'failed') {
+    logger.warn('Webhook delivery failed', { deliveryId, subscriptionId: subscription.id, attempts, responseStatus, error });
+  }
+}
@@ -2,6 +2,8 @@
 
 export type Platform = 'na1' | 'br1' | 'la1' | 'la2' | 'euw1' | 'eun1' | 'me1' | 'tr1' | 'ru' | 'jp1' | 'kr' | 'oc1' | 'sg2' | 'tw2' | 'vn2';
 export type Region = 'americas' | 'europe' | 'asia' 
+/** Regional routes for Match-V5, which serves OC1, SG2, TW2 and VN2 matches from sea instead of asia */
+export type MatchRegion = Region | 'sea';
 
 export interface RiotId {
   gameName: string;
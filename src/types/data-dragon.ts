@@ -0,0 +1,77 @@
+/**
+ * Data Dragon static data types
+ */
+
+export interface DataDragonImageDto {
+  full: string;
+  sprite: string;
+  group: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface DataDragonListDto<T> {
+  type: string;
+  version: string;
+  data: Record<string, T>;
+}
+
+export interface ChampionDataDto {
+  id: string;
+  key: string;
+  name: string;
+  title: string;
+  tags: string[];
+  image: DataDragonImageDto;
+}
+
+export interface ItemDataDto {
+  name: string;
+  description: string;
+  plaintext: string;
+  gold: {
+    base: number;
+    total: number;
+    sell: number;
+    purchasable: boolean;
+  };
+  tags: string[];
+  image: DataDragonImageDto;
+}
+
+export interface SummonerSpellDataDto {
+  id: string;
+  key: string;
+  name: string;
+  description: string;
+  cooldown: number[];
+  summonerLevel: number;
+  modes: string[];
+  image: DataDragonImageDto;
+}
+
+export interface RuneDto {
+  id: number;
+  key: string;
+  icon: string;
+  name: string;
+  shortDesc: string;
+  longDesc: string;
+}
+
+export interface RuneTreeDto {
+  id: number;
+  key: string;
+  icon: string;
+  name: string;
+  slots: { runes: RuneDto[] }[];
+}
+
+export interface QueueDto {
+  queueId: number;
+  map: string;
+  description: string | null;
+  notes: string | null;
+}
@@ -3,3 +3,8 @@ export * from './account';
 export * from './summoner';
 export * from './league';
 export * from './common';
+export * from './match';
+export * from './mastery';
+export * from './spectator';
+export * from './data-dragon';
+export * from './tft';
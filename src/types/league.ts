@@ -24,3 +24,28 @@ export interface LeagueEntryDto {
   inactive: boolean;
   miniSeries?: MiniSeriesDto;
 }
+
+export interface LeagueItemDto {
+  puuid: string;
+  summonerId?: string;
+  leaguePoints: number;
+  rank: string;
+  wins: number;
+  losses: number;
+  veteran: boolean;
+  inactive: boolean;
+  freshBlood: boolean;
+  hotStreak: boolean;
+  miniSeries?: MiniSeriesDto;
+}
+
+/**
+ * Full league of an apex tier (Master, Grandmaster or Challenger) for one queue
+ */
+export interface LeagueListDto {
+  leagueId: string;
+  tier: string;
+  name: string;
+  queue: string;
+  entries: LeagueItemDto[];
+}
@@ -0,0 +1,31 @@
+/**
+ * Champion Mastery API types
+ */
+
+export interface RewardConfigDto {
+  rewardValue: string;
+  rewardType: string;
+  maximumReward: number;
+}
+
+export interface NextSeasonMilestonesDto {
+  requireGradeCounts: Record<string, number>;
+  rewardMarks: number;
+  bonus: boolean;
+  rewardConfig?: RewardConfigDto;
+}
+
+export interface ChampionMasteryDto {
+  puuid: string;
+  championId: number;
+  championLevel: number;
+  championPoints: number;
+  lastPlayTime: number;
+  championPointsSinceLastLevel: number;
+  championPointsUntilNextLevel: number;
+  markRequiredForNextLevel?: number;
+  tokensEarned: number;
+  championSeasonMilestone?: number;
+  milestoneGrades?: string[];
+  nextSeasonMilestone?: NextSeasonMilestonesDto;
+}
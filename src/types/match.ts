@@ -0,0 +1,160 @@
+/**
+ * Match API types
+ */
+
+export interface MatchIdsQuery {
+  startTime?: number;
+  endTime?: number;
+  queue?: number;
+  type?: 'ranked' | 'normal' | 'tourney' | 'tutorial';
+  start?: number;
+  count?: number;
+}
+
+export interface MatchMetadataDto {
+  dataVersion: string;
+  matchId: string;
+  participants: string[];
+}
+
+export interface PerkStyleSelectionDto {
+  perk: number;
+  var1: number;
+  var2: number;
+  var3: number;
+}
+
+export interface PerkStyleDto {
+  description: string;
+  selections: PerkStyleSelectionDto[];
+  style: number;
+}
+
+export interface PerkStatsDto {
+  defense: number;
+  flex: number;
+  offense: number;
+}
+
+export interface PerksDto {
+  statPerks: PerkStatsDto;
+  styles: PerkStyleDto[];
+}
+
+export interface ParticipantChallengesDto {
+  killParticipation?: number;
+  teamDamagePercentage?: number;
+  damageTakenOnTeamPercentage?: number;
+  kda?: number;
+}
+
+export interface ParticipantDto {
+  puuid: string;
+  riotIdGameName?: string;
+  riotIdTagline?: string;
+  summonerName?: string;
+  participantId: number;
+  teamId: number;
+  championId: number;
+  championName: string;
+  champLevel: number;
+  teamPosition: string;
+  individualPosition: string;
+  lane: string;
+  role: string;
+  kills: number;
+  deaths: number;
+  assists: number;
+  totalMinionsKilled: number;
+  neutralMinionsKilled: number;
+  goldEarned: number;
+  goldSpent: number;
+  totalDamageDealt: number;
+  totalDamageDealtToChampions: number;
+  physicalDamageDealtToChampions: number;
+  magicDamageDealtToChampions: number;
+  trueDamageDealtToChampions: number;
+  totalDamageTaken: number;
+  damageSelfMitigated: number;
+  damageDealtToObjectives: number;
+  damageDealtToBuildings: number;
+  totalHeal: number;
+  visionScore: number;
+  wardsPlaced: number;
+  wardsKilled: number;
+  visionWardsBoughtInGame: number;
+  item0: number;
+  item1: number;
+  item2: number;
+  item3: number;
+  item4: number;
+  item5: number;
+  item6: number;
+  summoner1Id: number;
+  summoner2Id: number;
+  perks: PerksDto;
+  turretKills: number;
+  inhibitorKills: number;
+  dragonKills: number;
+  baronKills: number;
+  firstBloodKill: boolean;
+  doubleKills: number;
+  tripleKills: number;
+  quadraKills: number;
+  pentaKills: number;
+  gameEndedInEarlySurrender: boolean;
+  gameEndedInSurrender: boolean;
+  win: boolean;
+  challenges?: ParticipantChallengesDto;
+}
+
+export interface BanDto {
+  championId: number;
+  pickTurn: number;
+}
+
+export interface ObjectiveDto {
+  first: boolean;
+  kills: number;
+}
+
+export interface ObjectivesDto {
+  baron: ObjectiveDto;
+  champion: ObjectiveDto;
+  dragon: ObjectiveDto;
+  horde?: ObjectiveDto;
+  inhibitor: ObjectiveDto;
+  riftHerald: ObjectiveDto;
+  tower: ObjectiveDto;
+}
+
+export interface TeamDto {
+  bans: BanDto[];
+  objectives: ObjectivesDto;
+  teamId: number;
+  win: boolean;
+}
+
+export interface MatchInfoDto {
+  endOfGameResult?: string;
+  gameCreation: number;
+  gameDuration: number;
+  gameEndTimestamp?: number;
+  gameId: number;
+  gameMode: string;
+  gameName: string;
+  gameStartTimestamp: number;
+  gameType: string;
+  gameVersion: string;
+  mapId: number;
+  participants: ParticipantDto[];
+  platformId: string;
+  queueId: number;
+  teams: TeamDto[];
+  tournamentCode?: string;
+}
+
+export interface MatchDto {
+  metadata: MatchMetadataDto;
+  info: MatchInfoDto;
+}
@@ -0,0 +1,52 @@
+/**
+ * Spectator API types
+ */
+
+export interface BannedChampionDto {
+  pickTurn: number;
+  championId: number;
+  teamId: number;
+}
+
+export interface ObserverDto {
+  encryptionKey: string;
+}
+
+export interface CurrentGamePerksDto {
+  perkIds: number[];
+  perkStyle: number;
+  perkSubStyle: number;
+}
+
+export interface GameCustomizationObjectDto {
+  category: string;
+  content: string;
+}
+
+export interface CurrentGameParticipantDto {
+  championId: number;
+  perks?: CurrentGamePerksDto;
+  profileIconId: number;
+  bot: boolean;
+  teamId: number;
+  summonerId?: string;
+  puuid: string | null;
+  riotId?: string;
+  spell1Id: number;
+  spell2Id: number;
+  gameCustomizationObjects: GameCustomizationObjectDto[];
+}
+
+export interface CurrentGameInfoDto {
+  gameId: number;
+  gameType: string;
+  gameStartTime: number;
+  mapId: number;
+  gameLength: number;
+  platformId: string;
+  gameMode: string;
+  bannedChampions: BannedChampionDto[];
+  gameQueueConfigId?: number;
+  observers: ObserverDto;
+  participants: CurrentGameParticipantDto[];
+}
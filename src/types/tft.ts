@@ -0,0 +1,83 @@
+/**
+ * Teamfight Tactics API types (TFT-League-V1 and TFT-Match-V1)
+ * TFT-Summoner-V1 returns the same shape as Summoner-V4 (SummonerDto)
+ */
+
+export interface TftLeagueEntryDto {
+  puuid: string;
+  queueType: string;
+  wins: number;
+  losses: number;
+  /** Absent for Hyper Roll, which uses ratedTier and ratedRating instead */
+  leagueId?: string;
+  tier?: string;
+  rank?: string;
+  leaguePoints?: number;
+  hotStreak?: boolean;
+  veteran?: boolean;
+  freshBlood?: boolean;
+  inactive?: boolean;
+  /** Hyper Roll only (e.g., ORANGE, PURPLE) */
+  ratedTier?: string;
+  ratedRating?: number;
+}
+
+export interface TftMatchIdsQuery {
+  start?: number;
+  count?: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface TftTraitDto {
+  name: string;
+  num_units: number;
+  /** Trait style: 0 none, 1 bronze, 2 silver, 3 unique, 4 gold (and chromatic on later sets) */
+  style: number;
+  tier_current: number;
+  tier_total: number;
+}
+
+export interface TftUnitDto {
+  character_id: string;
+  name?: string;
+  /** Star level */
+  tier: number;
+  rarity: number;
+  itemNames?: string[];
+}
+
+export interface TftParticipantDto {
+  puuid: string;
+  riotIdGameName?: string;
+  riotIdTagline?: string;
+  placement: number;
+  level: number;
+  gold_left: number;
+  last_round: number;
+  players_eliminated: number;
+  time_eliminated: number;
+  total_damage_to_players: number;
+  traits: TftTraitDto[];
+  units: TftUnitDto[];
+  /** Double Up team, when the game was played in pairs */
+  partner_group_id?: number;
+}
+
+export interface TftMatchDto {
+  metadata: {
+    data_version: string;
+    match_id: string;
+    participants: string[];
+  };
+  info: {
+    game_datetime: number;
+    game_length: number;
+    game_version: string;
+    queue_id: number;
+    tft_set_number: number;
+    tft_game_type?: string;
+    tft_set_core_name?: string;
+    participants: TftParticipantDto[];
+  };
+}
@@ -7,3 +7,10 @@
 export * from './riot-id-parser';
 export * from './platform-mapping';
 export * from './parallel-queries';
+export * from './concurrency';
+export * from './single-flight';
+export * from './logger';
+export * from './rank';
+export * from './json-file-store';
+export * from './lru-cache';
+export * from './shutdown';
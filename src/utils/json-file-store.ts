@@ -0,0 +1,87 @@
+/**
+ * JSON File Store
+ *
+ * Keeps a JSON document in memory and persists it to disk. Writes are debounced
+ * and atomic (write to a temp file, then rename); pending writes are flushed on exit,
+ * including SIGINT and SIGTERM.
+ * A null file path keeps the document in memory only.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger.js';
+import { onShutdown } from './shutdown.js';
+
+const logger = createLogger('json-file-store');
+
+export class JsonFileStore<T> {
+  private _data: T;
+  private _writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private _filePath: string | null, initial: T, private _writeDelayMs: number = 1000) {
+    this._data = this._load() ?? initial;
+    if (_filePath) {
+      onShutdown(() => this.flush());
+    }
+  }
+
+  /**
+   * Current document (mutations must go through update so they are persisted)
+   */
+  get data(): Readonly<T> {
+    return this._data;
+  }
+
+  /**
+   * Modify the document and schedule a write
+   * @param fn - Mutates the document in place, or returns a replacement
+   * @returns Whatever fn returned
+   */
+  update<R>(fn: (data: T) => R): R {
+    const result = fn(this._data);
+    this._scheduleWrite();
+    return result;
+  }
+
+  /**
+   * Write the document to disk now
+   */
+  flush(): void {
+    if (this._writeTimer) {
+      clearTimeout(this._writeTimer);
+      this._writeTimer = null;
+    }
+    if (!this._filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this._filePath), { recursive: true });
+      const tmpPath = `${this._filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this._data));
+      fs.renameSync(tmpPath, this._filePath);
+    } catch (error) {
+      logger.error('Failed to write store file', { filePath: this._filePath, error });
+    }
+  }
+
+  private _load(): T | null {
+    if (!this._filePath || !fs.existsSync(this._filePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this._filePath, 'utf8')) as T;
+    } catch (error) {
+      logger.error('Failed to read store file, starting empty', { filePath: this._filePath, error });
+      return null;
+    }
+  }
+
+  private _scheduleWrite(): void {
+    if (!this._filePath || this._writeTimer) {
+      return;
+    }
+    this._writeTimer = setTimeout(() => this.flush(), this._writeDelayMs);
+    this._writeTimer.unref();
+  }
+}
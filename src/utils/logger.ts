@@ -0,0 +1,145 @@
+/**
+ * Structured logging
+ *
+ * Writes one JSON object per line with a level, component and the current request ID.
+ * The request ID is carried through async calls with AsyncLocalStorage, so logs from
+ * RiotClient and platform queries are correlated with the request that caused them.
+ * PUUIDs and tokens are redacted before anything is written.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerConfig {
+  level: LogLevel;
+  /** Field names whose values are always redacted (case-insensitive) */
+  redactKeys: string[];
+  /** Redact PUUIDs wherever they appear, including inside URLs */
+  redactPuuids: boolean;
+  /** Where log lines are written */
+  write: (line: string) => void;
+}
+
+interface RequestContext {
+  requestId: string;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+/**
+ * PUUIDs are 78 characters of base64url
+ */
+const PUUID_PATTERN = /[A-Za-z0-9_-]{78}/g;
+const REDACTED = '[REDACTED]';
+
+/**
+ * Field names redacted by default: PUUIDs and credentials
+ */
+export const DEFAULT_REDACT_KEYS = ['puuid', 'encryptedPUUID', 'x-riot-token', 'apiKey', 'token', 'authorization', 'x-admin-token'];
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const config: LoggerConfig = {
+  level: 'info',
+  redactKeys: DEFAULT_REDACT_KEYS,
+  redactPuuids: true,
+  write: (line) => process.stdout.write(line + '\n')
+};
+
+/**
+ * Check whether a string is a valid log level
+ */
+export function isLogLevel(value: string): value is LogLevel {
+  return Object.hasOwn(LEVELS, value);
+}
+
+/**
+ * Update logger configuration (level, redaction, output)
+ */
+export function configureLogger(options: Partial<LoggerConfig>): void {
+  Object.assign(config, options);
+}
+
+/**
+ * Run a function with a request ID attached to every log written during it, including async work it starts
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+/**
+ * Get the request ID of the current request, if any
+ */
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Redact sensitive values from a log value
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return config.redactPuuids ? value.replace(PUUID_PATTERN, REDACTED) : value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message, depth + 1) };
+  }
+  if (value === null || typeof value !== 'object' || depth > 5) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const redactKeys = config.redactKeys.map(key => key.toLowerCase());
+  const result: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    result[key] = redactKeys.includes(key.toLowerCase()) ? REDACTED : redact(fieldValue, depth + 1);
+  }
+  return result;
+}
+
+function write(level: Exclude<LogLevel, 'silent'>, component: string, message: string, fields?: LogFields): void {
+  if (LEVELS[level] < LEVELS[config.level]) {
+    return;
+  }
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    requestId: getRequestId(),
+    msg: redact(message),
+    ...(fields ? redact(fields) as LogFields : {})
+  };
+  config.write(JSON.stringify(entry));
+}
+
+/**
+ * Create a logger for a component
+ * @param component - Component name included in every log line (e.g., riot-client)
+ * @returns Levelled logger
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', component, message, fields),
+    info: (message, fields) => write('info', component, message, fields),
+    warn: (message, fields) => write('warn', component, message, fields),
+    error: (message, fields) => write('error', component, message, fields)
+  };
+}
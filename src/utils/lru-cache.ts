@@ -0,0 +1,112 @@
+/**
+ * Bounded LRU cache
+ * Holds entries up to a fixed total size, evicting the least recently used ones to make room,
+ * so large long-lived values (e.g., match payloads, images) cannot crowd other data out of a shared cache.
+ * Each entry counts as 1 unless a size function is given (e.g., byte length for images).
+ */
+
+export interface LruCacheStats {
+  entries: number;
+  /** Total size of the cached entries */
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+}
+
+interface LruCacheEntry<T> {
+  value: T;
+  size: number;
+  expiresAt: number;
+}
+
+export class LruCache<T> {
+  private _entries = new Map<string, LruCacheEntry<T>>();
+  private _size = 0;
+  private _hits = 0;
+  private _misses = 0;
+
+  /**
+   * @param _maxSize - Maximum total size (the number of entries, without a size function)
+   * @param _sizeOf - Size of a single value
+   */
+  constructor(private _maxSize: number, private _sizeOf: (value: T) => number = () => 1) {}
+
+  get(key: string): T | undefined {
+    const entry = this._entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this._remove(key, entry);
+      }
+      this._misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+    this._hits++;
+    return entry.value;
+  }
+
+  /**
+   * Store a value for ttl seconds, evicting the least recently used entries if the cache is full
+   * Values larger than the whole cache are not stored
+   */
+  set(key: string, value: T, ttl: number): void {
+    const size = this._sizeOf(value);
+    if (size > this._maxSize || this._maxSize <= 0) {
+      return;
+    }
+
+    const existing = this._entries.get(key);
+    if (existing) {
+      this._remove(key, existing);
+    }
+    for (const [oldestKey, oldest] of this._entries) {
+      if (this._size + size <= this._maxSize) {
+        break;
+      }
+      this._remove(oldestKey, oldest);
+    }
+
+    this._entries.set(key, { value, size, expiresAt: Date.now() + ttl * 1000 });
+    this._size += size;
+  }
+
+  del(key: string): number {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return 0;
+    }
+    this._remove(key, entry);
+    return 1;
+  }
+
+  keys(): string[] {
+    const now = Date.now();
+    return [...this._entries].filter(([, entry]) => entry.expiresAt > now).map(([key]) => key);
+  }
+
+  /**
+   * Change the maximum total size; existing entries are dropped
+   */
+  resize(maxSize: number): void {
+    this._maxSize = maxSize;
+    this.clear();
+  }
+
+  clear(): void {
+    this._entries.clear();
+    this._size = 0;
+  }
+
+  getStats(): LruCacheStats {
+    return { entries: this._entries.size, size: this._size, maxSize: this._maxSize, hits: this._hits, misses: this._misses };
+  }
+
+  private _remove(key: string, entry: LruCacheEntry<T>): void {
+    this._entries.delete(key);
+    this._size -= entry.size;
+  }
+}
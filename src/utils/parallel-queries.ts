@@ -1,7 +1,7 @@
 /**
  * Parallel Platform Queries
  * 
- * Utilities for querying multiple platforms in parallel for summoner and league data
+ * Utilities for querying multiple platforms in parallel for League of Legends and TFT summoner and league data
  */
 
 import type { Platform, Region } from '../types/index.js';
@@ -9,7 +9,12 @@ import { getPlatformsForRegion } from './platform-mapping.js';
 import { RiotClient } from '../api/riot-client.js';
 import type { SummonerDto } from '../types/summoner.js';
 import type { LeagueEntryDto } from '../types/league.js';
-import { PlayerNotFoundError } from '../api/errors.js';
+import type { TftLeagueEntryDto } from '../types/tft.js';
+import { PlayerNotFoundError, RiotApiError } from '../api/errors.js';
+import { CacheService } from '../services/cache.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('platform-query');
 
 export interface PlatformQueryResult<T> {
   platform: Platform;
@@ -21,65 +26,137 @@ export interface PlatformQueryError {
   error: Error;
 }
 
+export interface PlatformQueryOptions {
+  /** Query this platform directly and skip discovery entirely */
+  platform?: Platform;
+}
+
+/**
+ * Check whether a query result identifies the player's platform
+ * League entries come back as an empty array (not a 404) on platforms the player does not play on
+ */
+function hasPlayerData<T>(data: T): boolean {
+  return !Array.isArray(data) || data.length > 0;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof RiotApiError && error.statusCode === 404;
+}
+
+/**
+ * Query every platform in a region at once and resolve as soon as one returns player data
+ * If no platform returns data, the first successful (empty) result is used once all have settled;
+ * if every platform fails without a 404 (e.g., all rate limited), the first error is rethrown rather than
+ * reporting the player as not found
+ */
+function queryAllPlatforms<T>(
+  puuid: string,
+  region: Region,
+  queryFn: (puuid: string, platform: Platform) => Promise<T>
+): Promise<PlatformQueryResult<T>> {
+  const platforms = getPlatformsForRegion(region);
+
+  logger.debug('Querying platforms in parallel', { region, platforms });
+
+  return new Promise((resolve, reject) => {
+    let pending = platforms.length;
+    let settled = false;
+    let firstEmptyResult: PlatformQueryResult<T> | null = null;
+    let firstError: Error | null = null;
+    let notFound = false;
+
+    for (const platform of platforms) {
+      queryFn(puuid, platform)
+        .then((data) => {
+          logger.debug('Platform query succeeded', { platform });
+          if (settled) {
+            return;
+          }
+          if (hasPlayerData(data)) {
+            settled = true;
+            logger.debug('Using platform with player data', { platform });
+            resolve({ platform, data });
+          } else {
+            firstEmptyResult ??= { platform, data };
+          }
+        }, (error: Error) => {
+          logger.debug('Platform query failed', { platform, error });
+          if (isNotFound(error)) {
+            notFound = true;
+          } else {
+            firstError ??= error;
+          }
+        })
+        .finally(() => {
+          pending--;
+          if (pending > 0 || settled) {
+            return;
+          }
+          settled = true;
+          if (firstEmptyResult) {
+            logger.debug('No platform had player data, using first successful result', { platform: firstEmptyResult.platform });
+            resolve(firstEmptyResult);
+          } else if (firstError && !notFound) {
+            reject(firstError);
+          } else {
+            // Most platforms will return 404, which is expected - we only care if ALL fail
+            reject(new PlayerNotFoundError('Player not found on any platform in ' + region));
+          }
+        });
+    }
+  });
+}
+
 /**
- * Query all platforms for a region in parallel and return the first successful result
+ * Query the platform a player lives on
  * 
- * This function queries all platforms in a region simultaneously because:
- * - Account V1 API doesn't tell us which platform a PUUID belongs to
- * - We need to find the platform that has the player's data
- * - Most platforms will return 404 (expected), one will return data
+ * Account V1 API doesn't tell us which platform a PUUID belongs to, so:
+ * - An explicit platform from the caller is queried directly, skipping discovery
+ * - A platform remembered from a previous lookup is tried first
+ * - Otherwise (or if the remembered platform returns 404) all platforms in the region
+ *   are queried in parallel, and the platform that has the player's data is remembered
+ * 
+ * A player's League and TFT data live on the same platform, so the remembered platform is shared
+ * by every query function (Summoner-V4, TFT-Summoner-V1, League-V4, TFT-League-V1, ...)
  * 
  * @param puuid - Player's PUUID
  * @param region - Region to query
  * @param queryFn - Function to execute for each platform
+ * @param options - Optional explicit platform
  * @returns Promise resolving to the first successful result
  */
 export async function queryPlatformsInParallel<T>(
   puuid: string,
   region: Region,
-  queryFn: (puuid: string, platform: Platform) => Promise<T>
+  queryFn: (puuid: string, platform: Platform) => Promise<T>,
+  options: PlatformQueryOptions = {}
 ): Promise<PlatformQueryResult<T>> {
-  const platforms = getPlatformsForRegion(region);
-  
-  console.log(`🔄 Querying ${platforms.length} platforms in parallel for region ${region}:`, platforms);
+  if (options.platform) {
+    logger.debug('Querying requested platform directly', { platform: options.platform });
+    const data = await queryFn(puuid, options.platform);
+    return { platform: options.platform, data };
+  }
 
-  const promises = platforms.map(async (platform: Platform): Promise<PlatformQueryResult<T> | PlatformQueryError> => {
+  const knownPlatform = CacheService.getCachedPlatform(puuid);
+  if (knownPlatform && getPlatformsForRegion(region).includes(knownPlatform)) {
     try {
-      console.log(`🌐 Querying platform ${platform}...`);
-      const data = await queryFn(puuid, platform);
-      console.log(`✅ Platform ${platform} succeeded`);
-      return { platform, data };
+      logger.debug('Querying known platform directly', { platform: knownPlatform });
+      const data = await queryFn(puuid, knownPlatform);
+      return { platform: knownPlatform, data };
     } catch (error) {
-      console.log(`❌ Platform ${platform} failed:`, (error as Error).message);
-      return { platform, error: error as Error };
-    }
-  });
-
-  const results = await Promise.allSettled(promises);
-
-  // Find the first successful result with actual data
-  for (const result of results) {
-    if (result.status === 'fulfilled' && 'data' in result.value) {
-      const data = (result.value as PlatformQueryResult<T>).data;
-      // For league entries, prefer results with actual data
-      if (Array.isArray(data) && data.length > 0) {
-        console.log(`🎯 Using successful result with data from platform ${(result.value as PlatformQueryResult<T>).platform}`);
-        return result.value as PlatformQueryResult<T>;
+      if (!isNotFound(error)) {
+        throw error;
       }
+      logger.info('Known platform returned 404, falling back to discovery', { platform: knownPlatform });
+      CacheService.clearCachedPlatform(puuid);
     }
   }
 
-  // If no platform returned data, use the first successful result (even if empty)
-  for (const result of results) {
-    if (result.status === 'fulfilled' && 'data' in result.value) {
-      console.log(`🎯 Using first successful result from platform ${(result.value as PlatformQueryResult<T>).platform} (no data found)`);
-      return result.value as PlatformQueryResult<T>;
-    }
+  const result = await queryAllPlatforms(puuid, region, queryFn);
+  if (hasPlayerData(result.data)) {
+    CacheService.cachePlatform(puuid, result.platform);
   }
-
-  // If no platform succeeded, throw PlayerNotFoundError
-  // (Most platforms will return 404, which is expected - we only care if ALL fail)
-  throw new PlayerNotFoundError('Player not found on any platform in ' + region);
+  return result;
 }
 
 /**
@@ -87,17 +164,20 @@ export async function queryPlatformsInParallel<T>(
  * @param puuid - Player's PUUID
  * @param region - Region to query
  * @param riotClient - Riot API client
+ * @param options - Optional explicit platform
  * @returns Promise resolving to summoner data from the first successful platform
  */
 export async function querySummonerAcrossPlatforms(
   puuid: string,
   region: Region,
-  riotClient: RiotClient
+  riotClient: RiotClient,
+  options: PlatformQueryOptions = {}
 ): Promise<PlatformQueryResult<SummonerDto>> {
   return queryPlatformsInParallel(
     puuid,
     region,
-    (puuid, platform) => riotClient.getSummonerByPuuid(puuid, platform)
+    (puuid, platform) => riotClient.getSummonerByPuuid(puuid, platform),
+    options
   );
 }
 
@@ -106,16 +186,63 @@ export async function querySummonerAcrossPlatforms(
  * @param puuid - Player's PUUID
  * @param region - Region to query
  * @param riotClient - Riot API client
+ * @param options - Optional explicit platform
  * @returns Promise resolving to league entries from the first successful platform
  */
 export async function queryLeagueEntriesAcrossPlatforms(
   puuid: string,
   region: Region,
-  riotClient: RiotClient
+  riotClient: RiotClient,
+  options: PlatformQueryOptions = {}
 ): Promise<PlatformQueryResult<LeagueEntryDto[]>> {
   return queryPlatformsInParallel(
     puuid,
     region,
-    (puuid, platform) => riotClient.getLeagueEntriesbyEncryptedPUUID(puuid, platform)
+    (puuid, platform) => riotClient.getLeagueEntriesbyEncryptedPUUID(puuid, platform),
+    options
+  );
+}
+
+/**
+ * Query TFT summoner data across all platforms for a region
+ * @param puuid - Player's PUUID
+ * @param region - Region to query
+ * @param riotClient - Riot API client
+ * @param options - Optional explicit platform
+ * @returns Promise resolving to TFT summoner data from the first successful platform
+ */
+export async function queryTftSummonerAcrossPlatforms(
+  puuid: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: PlatformQueryOptions = {}
+): Promise<PlatformQueryResult<SummonerDto>> {
+  return queryPlatformsInParallel(
+    puuid,
+    region,
+    (puuid, platform) => riotClient.getTftSummonerByPuuid(puuid, platform),
+    options
+  );
+}
+
+/**
+ * Query TFT league entries across all platforms for a region
+ * @param puuid - Player's PUUID
+ * @param region - Region to query
+ * @param riotClient - Riot API client
+ * @param options - Optional explicit platform
+ * @returns Promise resolving to TFT league entries from the first successful platform
+ */
+export async function queryTftLeagueEntriesAcrossPlatforms(
+  puuid: string,
+  region: Region,
+  riotClient: RiotClient,
+  options: PlatformQueryOptions = {}
+): Promise<PlatformQueryResult<TftLeagueEntryDto[]>> {
+  return queryPlatformsInParallel(
+    puuid,
+    region,
+    (puuid, platform) => riotClient.getTftLeagueEntriesByPuuid(puuid, platform),
+    options
   );
 }
@@ -23,3 +23,19 @@ export const REGION_PLATFORMS: Record<Region, Platform[]> = {
 export function getPlatformsForRegion(region: Region): Platform[] {
   return REGION_PLATFORMS[region];
 }
+
+/**
+ * Get the platform a match was played on from its match ID prefix
+ * @param matchId - Match ID (e.g., NA1_1234567890)
+ * @returns Platform identifier, or null if the prefix is not a known platform
+ */
+export function getPlatformFromMatchId(matchId: string): Platform | null {
+  const separator = matchId.indexOf('_');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const prefix = matchId.slice(0, separator).toLowerCase();
+  const platforms = Object.values(REGION_PLATFORMS).flat();
+  return platforms.find(platform => platform === prefix) ?? null;
+}
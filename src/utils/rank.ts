@@ -0,0 +1,187 @@
+/**
+ * Rank Utilities
+ *
+ * Ordering, numeric scoring and arithmetic on ranked tiers and divisions, and win rates
+ *
+ * A rank score puts every rank on one ladder: each division is worth 100 points, so
+ * Iron IV 0 LP is 0 and Diamond I 99 LP is 2799. Apex tiers have no divisions and
+ * continue from Master 0 LP (2800) using their LP directly.
+ */
+
+export const TIERS = [
+  'IRON',
+  'BRONZE',
+  'SILVER',
+  'GOLD',
+  'PLATINUM',
+  'EMERALD',
+  'DIAMOND',
+  'MASTER',
+  'GRANDMASTER',
+  'CHALLENGER'
+] as const;
+
+export const DIVISIONS = ['IV', 'III', 'II', 'I'] as const;
+
+/**
+ * Tiers without divisions that share a single LP ladder
+ */
+export const APEX_TIERS = ['MASTER', 'GRANDMASTER', 'CHALLENGER'];
+
+export interface RankLike {
+  tier: string;
+  rank: string;
+  leaguePoints: number;
+}
+
+export interface RankMilestone {
+  tier: string;
+  rank: string;
+  /** LP needed to reach it, or null where the threshold is set by the ladder (Grandmaster, Challenger) */
+  lpNeeded: number | null;
+}
+
+export interface RankProgress {
+  rankScore: number;
+  /** Next division or tier, or null at Challenger or for an unknown tier */
+  nextMilestone: RankMilestone | null;
+}
+
+const LP_PER_DIVISION = 100;
+const APEX_BASE_SCORE = TIERS.indexOf('MASTER') * DIVISIONS.length * LP_PER_DIVISION;
+
+function getTierIndex(tier: string): number {
+  return TIERS.indexOf(tier.toUpperCase() as typeof TIERS[number]);
+}
+
+/**
+ * Get the position of a tier and division on the ladder (higher is better)
+ * Apex tiers all count as one step above Diamond I, since their order is decided by LP
+ * @returns Ordinal, or -1 for an unknown tier
+ */
+export function getRankOrdinal(tier: string, rank: string): number {
+  const tierIndex = getTierIndex(tier);
+  if (tierIndex < 0) {
+    return -1;
+  }
+  if (APEX_TIERS.includes(tier.toUpperCase())) {
+    return TIERS.indexOf('MASTER') * DIVISIONS.length;
+  }
+  const divisionIndex = Math.max(0, DIVISIONS.indexOf(rank.toUpperCase() as typeof DIVISIONS[number]));
+  return tierIndex * DIVISIONS.length + divisionIndex;
+}
+
+/**
+ * Convert a rank into a single number so ranks can be compared and LP changes measured across divisions
+ * Each division is worth 100 points; apex tiers continue from Master 0 LP using their LP directly
+ * @returns Score, or -1 for an unknown tier
+ */
+export function getRankScore(tier: string, rank: string, leaguePoints: number): number {
+  const ordinal = getRankOrdinal(tier, rank);
+  if (ordinal < 0) {
+    return -1;
+  }
+  if (APEX_TIERS.includes(tier.toUpperCase())) {
+    return APEX_BASE_SCORE + leaguePoints;
+  }
+  return ordinal * LP_PER_DIVISION + leaguePoints;
+}
+
+/**
+ * Win rate as a whole percentage
+ * @returns Percentage from 0 to 100, or 0 when no games were played
+ */
+export function getWinRate(wins: number, losses: number): number {
+  const games = wins + losses;
+  return games > 0 ? Math.round((wins / games) * 100) : 0;
+}
+
+/**
+ * Compare two ranks by tier and division only, ignoring LP
+ * Apex tiers share one ordinal, so Master, Grandmaster and Challenger are ordered by tier
+ * @returns Positive if a is higher, negative if lower, 0 for the same tier and division
+ */
+export function compareDivisions(a: Pick<RankLike, 'tier' | 'rank'>, b: Pick<RankLike, 'tier' | 'rank'>): number {
+  return getRankOrdinal(a.tier, a.rank) - getRankOrdinal(b.tier, b.rank)
+    || getTierIndex(a.tier) - getTierIndex(b.tier);
+}
+
+/**
+ * Compare two ranks including LP, usable as a sort comparator (ascending)
+ * Apex players with equal LP are ordered by tier
+ * @returns Positive if a is higher, negative if lower, 0 if equal
+ */
+export function compareRanks(a: RankLike, b: RankLike): number {
+  return getRankScore(a.tier, a.rank, a.leaguePoints) - getRankScore(b.tier, b.rank, b.leaguePoints)
+    || getTierIndex(a.tier) - getTierIndex(b.tier);
+}
+
+/**
+ * Convert a rank score back into a rank
+ * Scores above Diamond I map to Master, since Grandmaster and Challenger are decided by the ladder, not by LP
+ * @returns Rank, or null for a negative score
+ */
+export function getRankFromScore(score: number): RankLike | null {
+  if (score < 0) {
+    return null;
+  }
+  const rounded = Math.round(score);
+  if (rounded >= APEX_BASE_SCORE) {
+    return { tier: 'MASTER', rank: 'I', leaguePoints: rounded - APEX_BASE_SCORE };
+  }
+  const ordinal = Math.floor(rounded / LP_PER_DIVISION);
+  return {
+    tier: TIERS[Math.floor(ordinal / DIVISIONS.length)]!,
+    rank: DIVISIONS[ordinal % DIVISIONS.length]!,
+    leaguePoints: rounded % LP_PER_DIVISION
+  };
+}
+
+/**
+ * Average several ranks, ignoring unknown tiers
+ * @returns Average rank, or null if no rank is known
+ */
+export function averageRanks(ranks: RankLike[]): RankLike | null {
+  const scores = ranks
+    .map(rank => getRankScore(rank.tier, rank.rank, rank.leaguePoints))
+    .filter(score => score >= 0);
+  if (scores.length === 0) {
+    return null;
+  }
+  return getRankFromScore(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+/**
+ * Get the next division or tier a rank can reach and the LP needed
+ * Division I moves to the next tier; Diamond I moves to Master. Master and Grandmaster move up by ladder position,
+ * so their LP needed is null.
+ * @returns Next milestone, or null at Challenger or for an unknown tier
+ */
+export function getNextMilestone(tier: string, rank: string, leaguePoints: number): RankMilestone | null {
+  const tierIndex = getTierIndex(tier);
+  if (tierIndex < 0 || tierIndex === TIERS.length - 1) {
+    return null;
+  }
+
+  const nextTier = TIERS[tierIndex + 1]!;
+  if (APEX_TIERS.includes(tier.toUpperCase())) {
+    return { tier: nextTier, rank: 'I', lpNeeded: null };
+  }
+
+  const lpNeeded = Math.max(0, LP_PER_DIVISION - leaguePoints);
+  const divisionIndex = Math.max(0, DIVISIONS.indexOf(rank.toUpperCase() as typeof DIVISIONS[number]));
+  if (divisionIndex < DIVISIONS.length - 1) {
+    return { tier: tier.toUpperCase(), rank: DIVISIONS[divisionIndex + 1]!, lpNeeded };
+  }
+  return { tier: nextTier, rank: APEX_TIERS.includes(nextTier) ? 'I' : DIVISIONS[0], lpNeeded };
+}
+
+/**
+ * Get the rank score and next milestone for a ranked entry, as surfaced in API payloads
+ */
+export function getRankProgress(entry: RankLike): RankProgress {
+  return {
+    rankScore: getRankScore(entry.tier, entry.rank, entry.leaguePoints),
+    nextMilestone: getNextMilestone(entry.tier, entry.rank, entry.leaguePoints)
+  };
+}
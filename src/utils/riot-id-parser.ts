@@ -4,6 +4,11 @@
 
 import type { RiotId } from '../types/index.js';
 
+/**
+ * Lobby chat messages that follow a Riot ID (e.g., "Name#TAG joined the lobby")
+ */
+const LOBBY_MESSAGE_PATTERN = /\s+(joined|left) the lobby\.?$/i;
+
 export class RiotIdParser {
   /**
    * Parse a Riot ID string into gameName and tagLine
@@ -35,7 +40,13 @@ export class RiotIdParser {
       return false;
     }
 
-    const decodedRiotId = decodeURIComponent(riotId);
+    let decodedRiotId: string;
+    try {
+      decodedRiotId = decodeURIComponent(riotId);
+    } catch {
+      // Malformed percent-encoding, e.g. a stray "%" in pasted chat text
+      return false;
+    }
 
     const hashCount = (decodedRiotId.match(/#/g) || []).length;
     if (hashCount !== 1) {
@@ -50,4 +61,43 @@ export class RiotIdParser {
 
     return true;
   }
+
+  /**
+   * Extract every Riot ID from free-form text such as a pasted lobby chat
+   * Accepts one ID per line or comma-separated IDs, and strips lobby messages
+   * like "Name#TAG joined the lobby". Lines without a valid Riot ID are skipped.
+   * @param text - Text containing Riot IDs
+   * @returns Parsed Riot IDs in order of appearance, without duplicates (case-insensitive)
+   */
+  static parseMany(text: string): RiotId[] {
+    const seen = new Set<string>();
+    const riotIds: RiotId[] = [];
+
+    const candidates = text
+      .split(/[\r\n,]+/)
+      .map(line => line.replace(LOBBY_MESSAGE_PATTERN, '').trim())
+      .filter(line => line.length > 0);
+
+    for (const candidate of candidates) {
+      if (!this.isValid(candidate)) {
+        continue;
+      }
+
+      const riotId = this.parse(candidate);
+      const key = `${riotId.gameName}#${riotId.tagLine}`.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        riotIds.push(riotId);
+      }
+    }
+
+    return riotIds;
+  }
+
+  /**
+   * Format a Riot ID as "gameName#tagLine"
+   */
+  static format(riotId: RiotId): string {
+    return `${riotId.gameName}#${riotId.tagLine}`;
+  }
 }
@@ -0,0 +1,53 @@
+/**
+ * Shutdown hooks
+ * Runs registered callbacks (e.g., flushing pending writes to disk) once when the process exits.
+ * SIGINT and SIGTERM (Ctrl+C, container stops, tsx watch restarts) do not run 'exit' handlers
+ * on their own, so they are handled here by running the hooks and then exiting.
+ */
+
+import { createLogger } from './logger.js';
+
+const logger = createLogger('shutdown');
+
+const hooks = new Set<() => void>();
+let installed = false;
+
+function runHooks(): void {
+  for (const hook of [...hooks]) {
+    hooks.delete(hook);
+    try {
+      hook();
+    } catch (error) {
+      logger.error('Shutdown hook failed', { error });
+    }
+  }
+}
+
+function install(): void {
+  if (installed) {
+    return;
+  }
+  installed = true;
+
+  process.once('exit', runHooks);
+  for (const [signal, exitCode] of [['SIGINT', 130], ['SIGTERM', 143]] as const) {
+    process.once(signal, () => {
+      logger.info('Received signal, flushing before exit', { signal });
+      runHooks();
+      process.exit(exitCode);
+    });
+  }
+}
+
+/**
+ * Run a callback when the process exits or receives SIGINT or SIGTERM
+ * @param hook - Synchronous callback, e.g. a store's flush
+ * @returns Function that unregisters the hook
+ */
+export function onShutdown(hook: () => void): () => void {
+  install();
+  hooks.add(hook);
+  return () => {
+    hooks.delete(hook);
+  };
+}
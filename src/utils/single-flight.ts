@@ -0,0 +1,59 @@
+/**
+ * Single-flight request coalescing
+ * 
+ * Concurrent calls with the same key share one in-flight promise instead of each
+ * doing the work. Once the promise settles the key is released, so later calls run again.
+ */
+
+export interface SingleFlightStats {
+  /** Total calls made through this group */
+  calls: number;
+  /** Calls that actually ran the work */
+  executions: number;
+  /** Calls that joined an in-flight promise instead of running the work */
+  deduplicated: number;
+  /** Keys currently in flight */
+  inFlight: number;
+}
+
+export class SingleFlight {
+  private _inFlight = new Map<string, Promise<unknown>>();
+  private _calls = 0;
+  private _executions = 0;
+
+  /**
+   * Run fn for this key, or join the call already in flight for it
+   * @param key - Identity of the work (e.g., request URL)
+   * @param fn - Work to run if nothing is in flight for key
+   * @returns Result shared by every caller that joined
+   */
+  do<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    this._calls++;
+
+    const existing = this._inFlight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    this._executions++;
+    const promise = fn().finally(() => this._inFlight.delete(key));
+    this._inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Check whether work for this key is in flight
+   */
+  has(key: string): boolean {
+    return this._inFlight.has(key);
+  }
+
+  getStats(): SingleFlightStats {
+    return {
+      calls: this._calls,
+      executions: this._executions,
+      deduplicated: this._calls - this._executions,
+      inFlight: this._inFlight.size
+    };
+  }
+}
@@ -5,10 +5,258 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { RiotClient } from '../src/api/riot-client.js';
+import type { RiotClientOptions } from '../src/api/riot-client.js';
+import { RetryPolicies } from '../src/api/retry.js';
+import { ApiRouting } from '../src/api/routing.js';
+import { RiotApiError, RateLimitError } from '../src/api/errors.js';
+import { RateLimiter, parseRateLimitHeader } from '../src/api/rate-limiter.js';
+
+/**
+ * Create a RiotClient whose HTTP calls are answered by the given handler instead of the network
+ */
+function createClient(
+  handler: (config: InternalAxiosRequestConfig) => { status: number; data?: unknown; headers?: Record<string, string> },
+  options: RiotClientOptions = {}
+) {
+  const client = new RiotClient('test-key', options);
+  const adapter: AxiosAdapter = async (config) => {
+    const { status, data = null, headers = {} } = handler(config);
+    const response = { status, statusText: String(status), data, headers: new AxiosHeaders(headers), config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  };
+  (client as any)._client.defaults.adapter = adapter;
+  return client;
+}
 
 describe('RiotClient', () => {
   // TODO: Implement API client tests
   it('should be implemented', () => {
     expect(true).toBe(true);
   });
+
+  describe('getActiveGameByPuuid', () => {
+    it('should return null when the player is not in a game', async () => {
+      const client = createClient(() => ({ status: 404, data: { status: { message: 'Data not found', status_code: 404 } } }));
+      await expect(client.getActiveGameByPuuid('puuid', 'na1')).resolves.toBeNull();
+    });
+
+    it('should still throw for other errors', async () => {
+      const client = createClient(() => ({ status: 503 }));
+      await expect(client.getActiveGameByPuuid('puuid', 'na1')).rejects.toBeInstanceOf(RiotApiError);
+    });
+  });
+
+  describe('apex league lists', () => {
+    it('should request the league list for the tier and queue on the platform', async () => {
+      const urls: string[] = [];
+      const client = createClient((config) => {
+        urls.push(config.url ?? '');
+        return { status: 200, data: { leagueId: 'league', tier: 'GRANDMASTER', name: 'League', queue: 'RANKED_FLEX_SR', entries: [] } };
+      });
+
+      await client.getGrandmasterLeague('RANKED_FLEX_SR', 'kr');
+
+      expect(urls).toEqual(['https://kr.api.riotgames.com/lol/league/v4/grandmasterleagues/by-queue/RANKED_FLEX_SR']);
+    });
+  });
+
+  describe('TFT endpoints', () => {
+    it('should use platform routing for summoner and league data and regional routing for matches', async () => {
+      const requests: { url: string; params: unknown }[] = [];
+      const client = createClient((config) => {
+        requests.push({ url: config.url ?? '', params: config.params });
+        return { status: 200, data: [] };
+      });
+
+      await client.getTftSummonerByPuuid('puuid', 'euw1');
+      await client.getTftLeagueEntriesByPuuid('puuid', 'euw1');
+      await client.getTftMatchIdsByPuuid('puuid', 'europe', { count: 5 });
+      await client.getTftMatchById('EUW1_123', 'europe');
+
+      expect(requests.map(request => request.url)).toEqual([
+        'https://euw1.api.riotgames.com/tft/summoner/v1/summoners/by-puuid/puuid',
+        'https://euw1.api.riotgames.com/tft/league/v1/by-puuid/puuid',
+        'https://europe.api.riotgames.com/tft/match/v1/matches/by-puuid/puuid/ids',
+        'https://europe.api.riotgames.com/tft/match/v1/matches/EUW1_123'
+      ]);
+      expect(requests[2]?.params).toEqual({ count: 5 });
+    });
+  });
+
+  describe('Match-V5 routing', () => {
+    it('should send Southeast Asia and Oceania matches to the sea host', async () => {
+      const urls: string[] = [];
+      const client = createClient((config) => {
+        urls.push(config.url ?? '');
+        return { status: 200, data: {} };
+      });
+
+      await client.getMatchById('OC1_123', ApiRouting.getMatchRegionFromPlatform('oc1'));
+      await client.getMatchById('KR_456', ApiRouting.getMatchRegionFromPlatform('kr'));
+
+      expect(urls).toEqual([
+        'https://sea.api.riotgames.com/lol/match/v5/matches/OC1_123',
+        'https://asia.api.riotgames.com/lol/match/v5/matches/KR_456'
+      ]);
+    });
+  });
+
+  describe('PUUID paths', () => {
+    it('should encode the PUUID so it cannot change the endpoint or add query parameters', async () => {
+      const urls: string[] = [];
+      const client = createClient((config) => {
+        urls.push(config.url ?? '');
+        return { status: 200, data: [] };
+      });
+
+      await client.getChampionMasteriesByPuuid('../../x?api_key=', 'na1');
+
+      expect(urls).toEqual(['https://na1.api.riotgames.com/lol/champion-mastery/v4/champion-masteries/by-puuid/..%2F..%2Fx%3Fapi_key%3D']);
+    });
+  });
+
+  describe('rate limit tracking', () => {
+    it('should record limits from response headers per routing value and method', async () => {
+      const client = createClient(() => ({
+        status: 200,
+        data: { puuid: 'puuid', profileIconId: 1, revisionDate: 0, summonerLevel: 30 },
+        headers: {
+          'x-app-rate-limit': '20:1,100:120',
+          'x-app-rate-limit-count': '1:1,7:120',
+          'x-method-rate-limit': '1600:60',
+          'x-method-rate-limit-count': '1:60'
+        }
+      }));
+
+      await client.getSummonerByPuuid('puuid', 'na1');
+
+      const state = client.getRateLimitState();
+      expect(state.application.find(bucket => bucket.key === 'na1')?.windows[1]).toMatchObject({ limit: 100, count: 7 });
+      expect(state.method.find(bucket => bucket.key === 'na1:summoner-v4.getByPuuid')?.windows[0]).toMatchObject({ limit: 1600, count: 1 });
+    });
+  });
+});
+
+describe('RiotClient coalescing', () => {
+  it('should share one upstream request between identical concurrent calls', async () => {
+    let calls = 0;
+    const client = createClient(() => {
+      calls++;
+      return { status: 200, data: { puuid: 'puuid', profileIconId: 1, revisionDate: 0, summonerLevel: 30 } };
+    });
+
+    await Promise.all([
+      client.getSummonerByPuuid('puuid', 'na1'),
+      client.getSummonerByPuuid('puuid', 'na1'),
+      client.getSummonerByPuuid('puuid', 'br1')
+    ]);
+
+    expect(calls).toBe(2);
+    expect(client.getCoalescingStats()).toMatchObject({ calls: 3, executions: 2, deduplicated: 1 });
+  });
+});
+
+describe('RiotClient retries', () => {
+  const summoner = { puuid: 'puuid', profileIconId: 1, revisionDate: 0, summonerLevel: 30 };
+  const fastRetry = { retry: { baseDelayMs: 1, maxDelayMs: 1 } };
+
+  it('should retry transient server errors with backoff', async () => {
+    let calls = 0;
+    const client = createClient(() => (++calls < 3 ? { status: 503 } : { status: 200, data: summoner }), fastRetry);
+
+    await expect(client.getSummonerByPuuid('puuid', 'na1')).resolves.toEqual(summoner);
+    expect(calls).toBe(3);
+  });
+
+  it('should honour Retry-After on 429 responses', async () => {
+    let calls = 0;
+    const client = createClient(() => (++calls === 1
+      ? { status: 429, headers: { 'retry-after': '0', 'x-rate-limit-type': 'method' } }
+      : { status: 200, data: summoner }), fastRetry);
+
+    await expect(client.getSummonerByPuuid('puuid', 'na1')).resolves.toEqual(summoner);
+    expect(calls).toBe(2);
+  });
+
+  it('should stop after the maximum number of attempts', async () => {
+    let calls = 0;
+    const client = createClient(() => { calls++; return { status: 502 }; }, fastRetry);
+
+    await expect(client.getSummonerByPuuid('puuid', 'na1')).rejects.toMatchObject({ statusCode: 502 });
+    expect(calls).toBe(RetryPolicies.interactive.maxAttempts);
+  });
+
+  it('should let a call opt out of retries', async () => {
+    let calls = 0;
+    const client = createClient(() => { calls++; return { status: 500 }; }, fastRetry);
+
+    await expect(client.getSummonerByPuuid('puuid', 'na1', { retry: RetryPolicies.failFast })).rejects.toBeInstanceOf(RiotApiError);
+    expect(calls).toBe(1);
+  });
+
+  it('should not retry client errors', async () => {
+    let calls = 0;
+    const client = createClient(() => { calls++; return { status: 404 }; }, fastRetry);
+
+    await expect(client.getSummonerByPuuid('puuid', 'na1')).rejects.toMatchObject({ statusCode: 404 });
+    expect(calls).toBe(1);
+  });
+
+  it('should surface rate limit queue timeouts as RateLimitError', async () => {
+    const client = createClient(() => ({ status: 200, data: summoner }), {
+      rateLimit: { defaultAppLimits: '1:10', maxQueueWaitMs: 0 }
+    });
+
+    await client.getSummonerByPuuid('puuid', 'na1');
+    await expect(client.getSummonerByPuuid('puuid', 'na1')).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should parse Riot rate limit headers', () => {
+    expect(parseRateLimitHeader('20:1,100:120')).toEqual(new Map([[1, 20], [120, 100]]));
+    expect(parseRateLimitHeader(undefined).size).toBe(0);
+  });
+
+  it('should refuse requests beyond the application limit', async () => {
+    const limiter = new RateLimiter({ defaultAppLimits: '2:10', maxQueueWaitMs: 0 });
+
+    await limiter.acquire('na1', 'summoner-v4.getByPuuid');
+    await limiter.acquire('na1', 'league-v4.getEntriesByPuuid');
+    await expect(limiter.acquire('na1', 'summoner-v4.getByPuuid')).rejects.toBeInstanceOf(RateLimitError);
+
+    // Other routing values have their own application bucket
+    await expect(limiter.acquire('euw1', 'summoner-v4.getByPuuid')).resolves.toBeUndefined();
+  });
+
+  it('should apply method limits and counts reported by Riot', async () => {
+    const limiter = new RateLimiter({ maxQueueWaitMs: 0 });
+    limiter.update('americas', 'match-v5.getMatch', {
+      'x-method-rate-limit': '5:10',
+      'x-method-rate-limit-count': '5:10'
+    });
+
+    await expect(limiter.acquire('americas', 'match-v5.getMatch')).rejects.toBeInstanceOf(RateLimitError);
+    await expect(limiter.acquire('americas', 'match-v5.getIdsByPuuid')).resolves.toBeUndefined();
+
+    const state = limiter.getState();
+    expect(state.method.find(bucket => bucket.key === 'americas:match-v5.getMatch')?.windows[0]).toMatchObject({
+      limit: 5,
+      windowSeconds: 10,
+      count: 5
+    });
+  });
+
+  it('should block the exceeded bucket after a 429', async () => {
+    const limiter = new RateLimiter({ maxQueueWaitMs: 0 });
+    limiter.penalize('kr', 'league-v4.getEntriesByPuuid', 30, 'application');
+
+    await expect(limiter.acquire('kr', 'summoner-v4.getByPuuid')).rejects.toMatchObject({ retryAfter: 30 });
+  });
 });
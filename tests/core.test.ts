@@ -5,6 +5,115 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { FileCacheBackend, MemoryCacheBackend } from '../src/services/cache-backend.js';
+import { getAccountProfile, getAccountProfileByPuuid, getAccountProfiles, getAccountProfileStaleWhileRevalidate } from '../src/services/account.js';
+import { CacheService, CacheKeys } from '../src/services/cache.js';
+import { PlayerNotFoundError, RateLimitError, RiotApiError } from '../src/api/errors.js';
+import type { RiotClient } from '../src/api/riot-client.js';
+import { summarizeMatch, serializeMatchIdsQuery, computeKda, buildMatchDetail } from '../src/services/matches.js';
+import { aggregateChampionStats, getChampionStats } from '../src/services/champion-stats.js';
+import type { CurrentGameInfoDto, MatchDto, ParticipantDto, TftMatchDto, TftParticipantDto } from '../src/types/index.js';
+import { loadConfig, ConfigError } from '../src/config/index.js';
+import { configureDataDragon, refreshVersion, getStaticData, getChampionById, getRuneById, getQueueById } from '../src/services/data-dragon.js';
+import { AssetNotFoundError, getAsset } from '../src/services/assets.js';
+import type { Asset } from '../src/services/assets.js';
+import { LruCache } from '../src/utils/lru-cache.js';
+import { recordLeagueEntries, getRankHistory } from '../src/services/rank-history.js';
+import type { LeagueEntryDto } from '../src/types/index.js';
+import { onPlayerEvent, observeActiveGame, emitPlayerEvent } from '../src/services/player-events.js';
+import { recordRiotId, getRiotIdHistory } from '../src/services/riot-id-history.js';
+import type { PlayerEvent } from '../src/services/player-events.js';
+import { configureWebhooks, createWebhook, startWebhookDispatch, getWebhookDeliveries, signWebhookPayload, dispatchEvent, deleteWebhook, WebhookDestinationError } from '../src/services/webhooks.js';
+import { getLeaderboard } from '../src/services/leaderboard.js';
+import { comparePlayers } from '../src/services/compare.js';
+import { getTftProfile, getTftMatchesSettled, summarizeTftMatch } from '../src/services/tft.js';
+import { getMasteryProfile, getOptionalMasteryProfile } from '../src/services/mastery.js';
+import { buildLiveGame } from '../src/services/live-game.js';
+import { addWatchedPlayer, getWatchedPlayer, pollWatchedPlayer, onWatchlistChange, getWatchlistChanges, WatchlistPoller, WatchlistFullError } from '../src/services/watchlist.js';
+
+function makeParticipant(overrides: Partial<ParticipantDto> = {}): ParticipantDto {
+  return {
+    puuid: 'player-puuid',
+    participantId: 1,
+    teamId: 100,
+    championId: 157,
+    championName: 'Yasuo',
+    champLevel: 16,
+    teamPosition: 'MIDDLE',
+    individualPosition: 'MIDDLE',
+    lane: 'MIDDLE',
+    role: 'SOLO',
+    kills: 8,
+    deaths: 2,
+    assists: 6,
+    totalMinionsKilled: 200,
+    neutralMinionsKilled: 10,
+    goldEarned: 12000,
+    goldSpent: 11000,
+    totalDamageDealt: 150000,
+    totalDamageDealtToChampions: 25000,
+    physicalDamageDealtToChampions: 20000,
+    magicDamageDealtToChampions: 3000,
+    trueDamageDealtToChampions: 2000,
+    totalDamageTaken: 18000,
+    damageSelfMitigated: 9000,
+    damageDealtToObjectives: 5000,
+    damageDealtToBuildings: 3000,
+    totalHeal: 4000,
+    visionScore: 20,
+    wardsPlaced: 8,
+    wardsKilled: 2,
+    visionWardsBoughtInGame: 1,
+    item0: 3031, item1: 6672, item2: 3006, item3: 0, item4: 0, item5: 0, item6: 3340,
+    summoner1Id: 4,
+    summoner2Id: 14,
+    perks: { statPerks: { defense: 5001, flex: 5008, offense: 5005 }, styles: [] },
+    turretKills: 1,
+    inhibitorKills: 0,
+    dragonKills: 0,
+    baronKills: 0,
+    firstBloodKill: false,
+    doubleKills: 1,
+    tripleKills: 0,
+    quadraKills: 0,
+    pentaKills: 0,
+    gameEndedInEarlySurrender: false,
+    gameEndedInSurrender: false,
+    win: true,
+    ...overrides
+  };
+}
+
+function makeMatch(participants: ParticipantDto[], overrides: Partial<MatchDto['info']> = {}): MatchDto {
+  return {
+    metadata: {
+      dataVersion: '2',
+      matchId: 'NA1_1234567890',
+      participants: participants.map(p => p.puuid)
+    },
+    info: {
+      gameCreation: 1700000000000,
+      gameDuration: 1800,
+      gameId: 1234567890,
+      gameMode: 'CLASSIC',
+      gameName: 'teambuilder-match-1234567890',
+      gameStartTimestamp: 1700000000000,
+      gameType: 'MATCHED_GAME',
+      gameVersion: '14.18.1',
+      mapId: 11,
+      participants,
+      platformId: 'NA1',
+      queueId: 420,
+      teams: [],
+      ...overrides
+    }
+  };
+}
 
 describe('StatsChecker', () => {
   // TODO: Implement core logic tests
@@ -12,3 +121,965 @@ describe('StatsChecker', () => {
     expect(true).toBe(true);
   });
 });
+
+describe('Match summaries', () => {
+  it('should summarize a match from the player perspective', () => {
+    const summary = summarizeMatch(makeMatch([makeParticipant()]), 'player-puuid');
+
+    expect(summary).toMatchObject({
+      matchId: 'NA1_1234567890',
+      queueName: 'Ranked Solo/Duo',
+      champion: { id: 157, name: 'Yasuo', level: 16 },
+      kda: 7,
+      cs: 210,
+      csPerMinute: 7,
+      result: 'win'
+    });
+  });
+
+  it('should report remakes separately from losses', () => {
+    const participant = makeParticipant({ win: false, gameEndedInEarlySurrender: true });
+    expect(summarizeMatch(makeMatch([participant]), 'player-puuid')?.result).toBe('remake');
+  });
+
+  it('should return null when the player is not in the match', () => {
+    expect(summarizeMatch(makeMatch([makeParticipant()]), 'someone-else')).toBeNull();
+  });
+
+  it('should treat zero deaths as one when computing KDA', () => {
+    expect(computeKda(5, 0, 5)).toBe(10);
+  });
+
+  it('should serialize match ID filters independently of key order', () => {
+    expect(serializeMatchIdsQuery({ count: 10, start: 0, queue: 420 }))
+      .toBe(serializeMatchIdsQuery({ queue: 420, start: 0, count: 10 }));
+  });
+});
+
+describe('Match details', () => {
+  it('should group participants by team with totals and the winner', () => {
+    const match = makeMatch([
+      makeParticipant({ puuid: 'blue-1', kills: 4, assists: 2 }),
+      makeParticipant({ puuid: 'blue-2', kills: 6, assists: 1 }),
+      makeParticipant({ puuid: 'red-1', teamId: 200, kills: 3, win: false })
+    ]);
+
+    const detail = buildMatchDetail(match, 'na1');
+
+    expect(detail.region).toBe('americas');
+    expect(detail.winningTeamId).toBe(100);
+    expect(detail.teams.map(team => team.side)).toEqual(['blue', 'red']);
+    expect(detail.teams[0]?.totals.kills).toBe(10);
+    expect(detail.teams[0]?.participants[0]?.killParticipation).toBe(60);
+    expect(detail.teams[1]?.participants).toHaveLength(1);
+  });
+});
+
+describe('Champion stats aggregation', () => {
+  it('should aggregate games per champion and role, skipping remakes', () => {
+    const matches = [
+      makeMatch([makeParticipant({ kills: 10, deaths: 2, assists: 0 })]),
+      makeMatch([makeParticipant({ kills: 0, deaths: 4, assists: 4, win: false })]),
+      makeMatch([makeParticipant({ championId: 103, championName: 'Ahri', teamPosition: 'BOTTOM' })]),
+      makeMatch([makeParticipant({ gameEndedInEarlySurrender: true, win: false })])
+    ];
+
+    const result = aggregateChampionStats(matches, 'player-puuid');
+
+    expect(result.gamesAnalyzed).toBe(3);
+    expect(result.champions[0]).toMatchObject({
+      championName: 'Yasuo',
+      games: 2,
+      wins: 1,
+      winRate: 50,
+      kda: 2.33,
+      csPerMinute: 7,
+      damageShare: 100,
+      killParticipation: 50
+    });
+    expect(Object.keys(result.roles).sort()).toEqual(['BOTTOM', 'MIDDLE']);
+    expect(result.champions[1]?.roles['BOTTOM']?.games).toBe(1);
+  });
+
+  it('should fetch matches a few at a time and skip matches that fail', async () => {
+    const matchIds = Array.from({ length: 12 }, (_, i) => `STATS_${i}`);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const riotClient = {
+      getMatchIdsByPuuid: async () => matchIds,
+      getMatchById: async (matchId: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+        if (matchId === 'STATS_3') {
+          throw new RateLimitError(60);
+        }
+        return makeMatch([makeParticipant({ puuid: 'stats-puuid' })]);
+      }
+    } as unknown as RiotClient;
+
+    const result = await getChampionStats('stats-puuid', 'americas', { count: 12 }, riotClient);
+
+    expect(maxInFlight).toBeLessThanOrEqual(4);
+    expect(result.matchesFailed).toBe(1);
+    expect(result.champions[0]).toMatchObject({ championName: 'Yasuo', games: 11 });
+  });
+});
+
+describe('Cache backends', () => {
+  const options = { maxKeys: 3, checkPeriod: 60 };
+
+  function tempCacheFile(): string {
+    return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'riot-cache-')), 'cache.json');
+  }
+
+  it('should persist entries, including Buffers, across file backend instances', () => {
+    const filePath = tempCacheFile();
+    const first = new FileCacheBackend(filePath, options);
+    first.set('account:Samir#2468:americas', { puuid: 'abc' }, 60);
+    first.set('icon:6883', Buffer.from([137, 80, 78, 71]), 60);
+    first.flush();
+
+    const second = new FileCacheBackend(filePath, options);
+    expect(second.get('account:Samir#2468:americas')).toEqual({ puuid: 'abc' });
+    expect(Buffer.isBuffer(second.get('icon:6883'))).toBe(true);
+    expect(second.get<Buffer>('icon:6883')?.equals(Buffer.from([137, 80, 78, 71]))).toBe(true);
+    expect(second.keys().sort()).toEqual(['account:Samir#2468:americas', 'icon:6883']);
+  });
+
+  it('should append changed entries to the cache log and compact it when superseded lines pile up', () => {
+    const filePath = tempCacheFile();
+    const backend = new FileCacheBackend(filePath, options);
+    backend.set('a', 1, 60);
+    backend.flush();
+    backend.set('b', 2, 60);
+    backend.del('a');
+    backend.flush();
+    fs.appendFileSync(filePath, '{"key":"c","val');
+
+    const lines = () => fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+    expect(lines()).toHaveLength(4);
+
+    const reloaded = new FileCacheBackend(filePath, options);
+    expect(reloaded.keys()).toEqual(['b']);
+    expect(lines()).toHaveLength(1);
+
+    for (let i = 0; i < 1000; i++) {
+      reloaded.set('b', i, 60);
+    }
+    reloaded.flush();
+    expect(lines()).toHaveLength(1);
+    expect(new FileCacheBackend(filePath, options).get('b')).toBe(999);
+  });
+
+  it('should flush pending writes when the cache backend is swapped out', () => {
+    const filePath = tempCacheFile();
+    const backend = new FileCacheBackend(filePath, options, 60000);
+    backend.set('pending', { puuid: 'abc' }, 60);
+
+    CacheService.useBackend(backend);
+    CacheService.useBackend(new MemoryCacheBackend({ maxKeys: 1000, checkPeriod: 60 }));
+
+    expect(new FileCacheBackend(filePath, options).get('pending')).toEqual({ puuid: 'abc' });
+  });
+
+  it('should expire entries after their TTL and track hits and misses', () => {
+    const backend = new FileCacheBackend(tempCacheFile(), options);
+    backend.set('fresh', 1, 60);
+    backend.set('stale', 2, -1);
+
+    expect(backend.get('fresh')).toBe(1);
+    expect(backend.get('stale')).toBeUndefined();
+    expect(backend.getStats()).toEqual({ keys: 1, hits: 1, misses: 1 });
+  });
+
+  it('should evict the soonest-expiring entry when the file backend is full', () => {
+    const backend = new FileCacheBackend(tempCacheFile(), options);
+    backend.set('short', 1, 10);
+    backend.set('medium', 2, 100);
+    backend.set('long', 3, 1000);
+    backend.set('new', 4, 1000);
+
+    expect(backend.keys().sort()).toEqual(['long', 'medium', 'new']);
+  });
+
+  it('should reject new entries instead of throwing when the memory backend is full', () => {
+    const backend = new MemoryCacheBackend(options);
+    ['a', 'b', 'c'].forEach(key => backend.set(key, key, 60));
+
+    expect(backend.set('d', 'd', 60)).toBe(false);
+    expect(backend.getStats().keys).toBe(3);
+  });
+
+  it('should keep matches in a bounded LRU store apart from the backend', () => {
+    CacheService.useBackend(new MemoryCacheBackend(options));
+    try {
+      for (let i = 0; i < 600; i++) {
+        CacheService.cacheMatch(`LRU_${i}`, makeMatch([makeParticipant()]));
+      }
+
+      expect(CacheService.set('ddragon:version', '14.18.1')).toBe(true);
+      expect(CacheService.getCachedMatch('LRU_0')).toBeUndefined();
+      expect(CacheService.getCachedMatch('LRU_599')).toBeDefined();
+      expect(CacheService.getMatchCacheStats()).toMatchObject({ entries: 500, size: 500, maxSize: 500 });
+      expect(CacheService.delByPrefix('match:LRU_59')).toBe(10);
+    } finally {
+      CacheService.useBackend(new MemoryCacheBackend({ maxKeys: 1000, checkPeriod: 60 }));
+    }
+  });
+});
+
+/**
+ * Minimal RiotClient stand-in that finds every player on every platform, counting account lookups
+ */
+function createStubClient(summonerLevel = () => 100) {
+  const calls = { account: 0 };
+  const riotClient = {
+    getAccountByRiotId: async (gameName: string, tagLine: string) => {
+      calls.account++;
+      if (gameName === 'Missing') {
+        throw new PlayerNotFoundError('Player not found');
+      }
+      return { puuid: `puuid-${gameName}`, gameName, tagLine };
+    },
+    getSummonerByPuuid: async (puuid: string) => ({ puuid, profileIconId: 1, revisionDate: 0, summonerLevel: summonerLevel() }),
+    getLeagueEntriesbyEncryptedPUUID: async () => []
+  } as unknown as RiotClient;
+  return { riotClient, calls };
+}
+
+describe('Account lookups', () => {
+  it('should bypass and repopulate the cache on refresh', async () => {
+    let level = 100;
+    const { riotClient, calls } = createStubClient(() => level);
+
+    const first = await getAccountProfile('Refresh#NA1', 'americas', riotClient);
+    level = 101;
+    const cached = await getAccountProfile('Refresh#NA1', 'americas', riotClient);
+    const refreshed = await getAccountProfile('Refresh#NA1', 'americas', riotClient, { refresh: true });
+
+    expect(first.cached).toBe(false);
+    expect(cached).toMatchObject({ cached: true, data: { summonerInfo: { summonerLevel: 100 } } });
+    expect(refreshed).toMatchObject({ cached: false, data: { summonerInfo: { summonerLevel: 101 } } });
+    expect(refreshed.expiresAt).toBeGreaterThan(refreshed.cachedAt);
+    expect(calls.account).toBe(2);
+  });
+
+  it('should serve stale profiles immediately and refresh them once in the background', async () => {
+    let level = 100;
+    const { riotClient, calls } = createStubClient(() => level);
+
+    await getAccountProfile('Stale#NA1', 'americas', riotClient);
+    const key = 'account:Stale#NA1:americas';
+    const entry = CacheService.get<{ data: unknown; cachedAt: number }>(key)!;
+    CacheService.set(key, { ...entry, cachedAt: entry.cachedAt - 5 * 60000 }, 3600);
+    level = 150;
+
+    const [stale, again] = await Promise.all([
+      getAccountProfileStaleWhileRevalidate('Stale#NA1', 'americas', riotClient),
+      getAccountProfileStaleWhileRevalidate('Stale#NA1', 'americas', riotClient)
+    ]);
+    expect(stale).toMatchObject({ cached: true, revalidating: true, data: { summonerInfo: { summonerLevel: 100 } } });
+    expect(again.revalidating).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const fresh = await getAccountProfileStaleWhileRevalidate('Stale#NA1', 'americas', riotClient);
+    expect(fresh).toMatchObject({ cached: true, revalidating: false, data: { summonerInfo: { summonerLevel: 150 } } });
+    expect(calls.account).toBe(2);
+  });
+
+  it('should coalesce identical concurrent lookups into one resolution', async () => {
+    const { riotClient, calls } = createStubClient();
+
+    const results = await Promise.all([
+      getAccountProfile('Streamer#NA1', 'americas', riotClient),
+      getAccountProfile('Streamer#NA1', 'americas', riotClient),
+      getAccountProfile('Streamer#NA1', 'americas', riotClient)
+    ]);
+
+    expect(calls.account).toBe(1);
+    expect(results.every(result => result.data.puuid === 'puuid-Streamer')).toBe(true);
+  });
+
+  it('should clear cached accounts for one or all regions', async () => {
+    const { riotClient } = createStubClient();
+    await getAccountProfile('Clear#NA1', 'americas', riotClient);
+    await getAccountProfile('Clear#NA1', 'europe', riotClient);
+
+    expect(CacheService.clearCachedAccount('Clear#NA1')).toBe(2);
+    expect(CacheService.getCachedAccount('Clear#NA1', 'americas')).toBeUndefined();
+  });
+});
+
+describe('Account ranked queues', () => {
+  it('should return every league entry by queue type with names, and keep soloDuo/flex', async () => {
+    const entry = (queueType: string, wins: number, losses: number): LeagueEntryDto => ({
+      leagueId: 'league', puuid: 'puuid-Queues', queueType, tier: 'GOLD', rank: 'II', leaguePoints: 40, wins, losses,
+      hotStreak: true, veteran: false, freshBlood: false, inactive: false
+    });
+    const riotClient = {
+      getAccountByRiotId: async (gameName: string, tagLine: string) => ({ puuid: `puuid-${gameName}`, gameName, tagLine }),
+      getSummonerByPuuid: async (puuid: string) => ({ puuid, profileIconId: 1, revisionDate: 0, summonerLevel: 30 }),
+      getLeagueEntriesbyEncryptedPUUID: async () => [entry('RANKED_SOLO_5x5', 0, 0), entry('CHERRY', 3, 1), entry('RANKED_NEW_MODE', 1, 1)]
+    } as unknown as RiotClient;
+
+    const { data } = await getAccountProfile('Queues#NA1', 'americas', riotClient);
+
+    expect(data.rankedStats).toMatchObject({ soloDuo: { winRate: 0 }, flex: null });
+    expect(Object.keys(data.queues)).toEqual(['RANKED_SOLO_5x5', 'CHERRY', 'RANKED_NEW_MODE']);
+    expect(data.queues['CHERRY']).toMatchObject({ queueName: 'Arena', winRate: 75, hotStreak: true, leagueId: 'league' });
+    expect(data.queues['RANKED_NEW_MODE']?.queueName).toBe('Ranked New Mode');
+    expect(data.queues['CHERRY']).toMatchObject({ rankScore: 1440, nextMilestone: { tier: 'GOLD', rank: 'I', lpNeeded: 60 } });
+  });
+});
+
+describe('Batch account lookups', () => {
+  it('should report success or failure per entry without failing the batch', async () => {
+    const { riotClient } = createStubClient();
+
+    const results = await getAccountProfiles(['Batch#NA1', 'Missing#NA1', 'no-tag'], 'americas', riotClient);
+
+    expect(results.map(result => result.success)).toEqual([true, false, false]);
+    expect(results[0]).toMatchObject({ success: true, data: { puuid: 'puuid-Batch', platform: { summoner: 'na1' } } });
+    expect(results[1]).toMatchObject({ success: false, status: 404 });
+    expect(results[2]).toMatchObject({ success: false, status: 400 });
+  });
+});
+
+describe('Runtime configuration', () => {
+  it('should apply defaults and environment overrides', () => {
+    const config = loadConfig({ RIOT_API_KEY: 'key', PORT: '8080', CORS_ORIGINS: 'https://a.example, https://b.example', CACHE_TTL_MATCH_IDS: '30' });
+
+    expect(config.port).toBe(8080);
+    expect(config.cors.origins).toEqual(['https://a.example', 'https://b.example']);
+    expect(config.cache.ttl.matchIds).toBe(30);
+    expect(config.cache.ttl.account).toBe(86400);
+    expect(config.cache).toMatchObject({ maxKeys: 1000, checkPeriod: 60, matchMaxEntries: 500 });
+    expect(config.cache.ttl.default).toBe(300);
+    expect(config.riot.timeoutMs).toBe(10000);
+  });
+
+  it('should read a JSON config file with environment variables taking precedence', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'riot-config-'));
+    const filePath = path.join(dir, 'config.json');
+    fs.writeFileSync(filePath, JSON.stringify({ port: 4000, riot: { timeoutMs: 5000 }, cache: { backend: 'file' } }));
+
+    const config = loadConfig({ RIOT_API_KEY: 'key', CONFIG_FILE: filePath, PORT: '5000' });
+
+    expect(config.port).toBe(5000);
+    expect(config.riot.timeoutMs).toBe(5000);
+    expect(config.cache.backend).toBe('file');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report every invalid setting at once', () => {
+    try {
+      loadConfig({ PORT: '70000', CACHE_BACKEND: 'redis', DDRAGON_FALLBACK_VERSIONS: 'latest' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      const problems = (error as ConfigError).problems.join('\n');
+      expect(problems).toContain('PORT must be an integer between 1 and 65535');
+      expect(problems).toContain('CACHE_BACKEND must be one of memory, file');
+      expect(problems).toContain('DDRAGON_FALLBACK_VERSIONS');
+      expect(problems).toContain('RIOT_API_KEY is required');
+    }
+  });
+});
+
+describe('Data Dragon static data', () => {
+  function writeJson(filePath: string, data: unknown): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data));
+  }
+
+  function createBundle(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'riot-ddragon-'));
+    const image = { full: 'x.png', sprite: 'sprite.png', group: 'x', x: 0, y: 0, w: 48, h: 48 };
+    fs.mkdirSync(path.join(dir, '14.17.1'));
+    writeJson(path.join(dir, '14.18.1/data/en_US/champion.json'), {
+      type: 'champion', version: '14.18.1',
+      data: { MonkeyKing: { id: 'MonkeyKing', key: '62', name: 'Wukong', title: 'the Monkey King', tags: ['Fighter'], image: { ...image, full: 'MonkeyKing.png' } } }
+    });
+    writeJson(path.join(dir, '14.18.1/data/en_US/item.json'), {
+      type: 'item', version: '14.18.1',
+      data: { 1001: { name: 'Boots', description: '', plaintext: 'Slightly increases Move Speed', gold: { base: 300, total: 300, sell: 210, purchasable: true }, tags: ['Boots'], image: { ...image, full: '1001.png' } } }
+    });
+    writeJson(path.join(dir, '14.18.1/data/en_US/summoner.json'), {
+      type: 'summoner', version: '14.18.1',
+      data: { SummonerFlash: { id: 'SummonerFlash', key: '4', name: 'Flash', description: 'Teleports', cooldown: [300], summonerLevel: 7, modes: ['CLASSIC'], image: { ...image, full: 'SummonerFlash.png' } } }
+    });
+    writeJson(path.join(dir, '14.18.1/data/en_US/runesReforged.json'), [
+      { id: 8000, key: 'Precision', icon: 'perk-images/Styles/7201_Precision.png', name: 'Precision', slots: [
+        { runes: [{ id: 8005, key: 'PressTheAttack', icon: 'perk-images/Styles/Precision/PressTheAttack/PressTheAttack.png', name: 'Press the Attack', shortDesc: 'Hits stack', longDesc: '' }] }
+      ] }
+    ]);
+    writeJson(path.join(dir, 'queues.json'), [{ queueId: 420, map: "Summoner's Rift", description: '5v5 Ranked Solo games', notes: null }]);
+    return dir;
+  }
+
+  it('should load the newest patch from an offline bundle and resolve IDs', async () => {
+    const dir = createBundle();
+    configureDataDragon({ bundlePath: dir });
+
+    try {
+      expect(await refreshVersion()).toBe('14.18.1');
+
+      const data = await getStaticData('en_US');
+      expect(data.version).toBe('14.18.1');
+      expect(data.items[1001]?.totalGold).toBe(300);
+      expect(data.summonerSpells[4]?.name).toBe('Flash');
+
+      expect(await getChampionById(62)).toMatchObject({
+        name: 'Wukong',
+        key: 'MonkeyKing',
+        imageUrl: 'https://ddragon.leagueoflegends.com/cdn/14.18.1/img/champion/MonkeyKing.png'
+      });
+      expect(await getRuneById(8005)).toMatchObject({ name: 'Press the Attack', tree: 'Precision' });
+      expect(await getQueueById(420)).toMatchObject({ description: '5v5 Ranked Solo games' });
+      expect(await getChampionById(999)).toBeNull();
+    } finally {
+      configureDataDragon({ bundlePath: null });
+      CacheService.delByPrefix('ddragon:');
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should serve images from the bundle and distinguish unknown assets', async () => {
+    const dir = createBundle();
+    const png = Buffer.from([137, 80, 78, 71, 1]);
+    fs.mkdirSync(path.join(dir, '14.18.1/img/champion'), { recursive: true });
+    fs.writeFileSync(path.join(dir, '14.18.1/img/champion/MonkeyKing.png'), png);
+    fs.mkdirSync(path.join(dir, 'img/champion/splash'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'img/champion/splash/MonkeyKing_0.jpg'), png);
+    configureDataDragon({ bundlePath: dir });
+
+    try {
+      const asset = await getAsset({ kind: 'champion', id: 62, version: '14.18.1' });
+      expect(asset.data.equals(png)).toBe(true);
+      expect(asset.contentType).toBe('image/png');
+      expect(asset.etag).toMatch(/^"[0-9a-f]{40}"$/);
+      expect(asset.version).toBe('14.18.1');
+
+      // Splash art is shared by every patch, so it reports none
+      const splash = await getAsset({ kind: 'splash', id: 62, version: '14.18.1' });
+      expect(splash.contentType).toBe('image/jpeg');
+      expect(splash.version).toBeUndefined();
+
+      await expect(getAsset({ kind: 'champion', id: 999, version: '14.18.1' })).rejects.toBeInstanceOf(AssetNotFoundError);
+    } finally {
+      configureDataDragon({ bundlePath: null });
+      CacheService.delByPrefix('ddragon:');
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should summarize champion mastery with names from static data and cache the Riot responses', async () => {
+    const dir = createBundle();
+    configureDataDragon({ bundlePath: dir });
+    let calls = 0;
+    const mastery = (championId: number, championLevel: number, championPoints: number, milestoneGrades?: string[]) => ({
+      puuid: 'mastery-puuid', championId, championLevel, championPoints, lastPlayTime: 1700000000000,
+      championPointsSinceLastLevel: 0, championPointsUntilNextLevel: 11000, tokensEarned: 0,
+      ...(milestoneGrades ? { milestoneGrades } : {})
+    });
+    const riotClient = {
+      getChampionMasteryScoreByPuuid: async () => { calls++; return 45; },
+      getChampionMasteriesByPuuid: async () => { calls++; return [mastery(62, 12, 120000, ['S+', 'A']), mastery(999, 5, 30000)]; }
+    } as unknown as RiotClient;
+
+    try {
+      const profile = await getMasteryProfile('mastery-puuid', 'na1', riotClient, 1);
+      expect(profile).toEqual({
+        platform: 'na1',
+        totalScore: 45,
+        totalPoints: 150000,
+        championCount: 2,
+        champions: [{
+          championId: 62, championName: 'Wukong', championLevel: 12, championPoints: 120000,
+          championPointsUntilNextLevel: 11000, lastPlayTime: 1700000000000, milestoneGrades: ['S+', 'A']
+        }]
+      });
+
+      const all = await getMasteryProfile('mastery-puuid', 'na1', riotClient);
+      expect(all.champions[1]).toMatchObject({ championId: 999, championName: null, milestoneGrades: [] });
+      expect(calls).toBe(2);
+    } finally {
+      configureDataDragon({ bundlePath: null });
+      CacheService.delByPrefix('ddragon:');
+      CacheService.delByPrefix('mastery:');
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report optional mastery as null when Champion-Mastery-V4 fails', async () => {
+    const riotClient = {
+      getChampionMasteryScoreByPuuid: async () => 45,
+      getChampionMasteriesByPuuid: async () => { throw new RiotApiError('Service unavailable', 503); }
+    } as unknown as RiotClient;
+
+    await expect(getOptionalMasteryProfile('mastery-failure-puuid', 'na1', riotClient, 5)).resolves.toBeNull();
+    await expect(getMasteryProfile('mastery-failure-puuid', 'na1', riotClient, 5)).rejects.toBeInstanceOf(RiotApiError);
+  });
+
+  it('should evict the least recently used images once the byte budget is exceeded', () => {
+    const cache = new LruCache<Asset>(10, asset => asset.data.length);
+    const asset = (size: number): Asset => ({ data: Buffer.alloc(size), contentType: 'image/png', etag: '"x"', version: '14.18.1' });
+
+    cache.set('a', asset(4), 60);
+    cache.set('b', asset(4), 60);
+    cache.get('a');
+    cache.set('c', asset(4), 60);
+    cache.set('too-big', asset(11), 60);
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+    expect(cache.get('too-big')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ entries: 2, size: 8, maxSize: 10 });
+  });
+});
+
+describe('Rank history', () => {
+  function entry(tier: string, rank: string, leaguePoints: number, wins: number, losses: number): LeagueEntryDto {
+    return {
+      leagueId: 'league', puuid: 'history-puuid', queueType: 'RANKED_SOLO_5x5', tier, rank, leaguePoints, wins, losses,
+      hotStreak: false, veteran: false, freshBlood: false, inactive: false
+    };
+  }
+
+  it('should deduplicate unchanged entries and derive LP deltas across divisions', () => {
+    expect(recordLeagueEntries('history-puuid', [entry('GOLD', 'II', 80, 10, 8)], 1000)).toBe(1);
+    expect(recordLeagueEntries('history-puuid', [entry('GOLD', 'II', 80, 10, 8)], 2000)).toBe(0);
+    recordLeagueEntries('history-puuid', [entry('GOLD', 'I', 0, 11, 8)], 3000);
+    recordLeagueEntries('history-puuid', [entry('GOLD', 'II', 75, 11, 9)], 4000);
+
+    const history = getRankHistory('history-puuid', 'RANKED_SOLO_5x5');
+
+    expect(history.points.map(point => [point.lpDelta, point.change])).toEqual([
+      [null, null],
+      [20, 'promotion'],
+      [-25, 'demotion']
+    ]);
+    expect(history.points[1]?.gamesDelta).toBe(1);
+    expect(history.summary).toEqual({ snapshots: 3, promotions: 1, demotions: 1, netLp: -5 });
+    expect(getRankHistory('history-puuid', 'RANKED_FLEX_SR').points).toEqual([]);
+  });
+});
+
+describe('Live games', () => {
+  it('should look up participant ranks a few at a time and record history for the looked-up player only', async () => {
+    CacheService.set(CacheKeys.ddragonVersion(), '99.1.1', 60);
+    CacheService.set(CacheKeys.ddragonStatic('99.1.1', 'en_US'), { champions: { 62: { id: 62, name: 'Wukong' } } }, 60);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const riotClient = {
+      getLeagueEntriesbyEncryptedPUUID: async (puuid: string): Promise<LeagueEntryDto[]> => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return [{
+          leagueId: 'league', puuid, queueType: 'RANKED_SOLO_5x5', tier: 'GOLD', rank: 'I', leaguePoints: 10, wins: 5, losses: 5,
+          hotStreak: false, veteran: false, freshBlood: false, inactive: false
+        }];
+      }
+    } as unknown as RiotClient;
+    const participants = Array.from({ length: 10 }, (_, index) => ({
+      championId: 62, profileIconId: 1, bot: false, teamId: index < 5 ? 100 : 200, puuid: `live-puuid-${index}`,
+      spell1Id: 4, spell2Id: 14, gameCustomizationObjects: []
+    }));
+    const game = {
+      gameId: 7, gameType: 'MATCHED', gameStartTime: 0, mapId: 11, gameLength: 0, platformId: 'NA1', gameMode: 'CLASSIC',
+      bannedChampions: [], gameQueueConfigId: 420, observers: { encryptionKey: '' }, participants
+    } as CurrentGameInfoDto;
+
+    try {
+      const live = await buildLiveGame(game, 'na1', riotClient, 'live-puuid-3');
+
+      expect(maxInFlight).toBeLessThanOrEqual(3);
+      expect(live.teams[1]?.participants[0]).toMatchObject({ champion: { name: 'Wukong' }, ranked: { soloDuo: { tier: 'GOLD' } } });
+      expect(getRankHistory('live-puuid-3', 'RANKED_SOLO_5x5').points).toHaveLength(1);
+      expect(getRankHistory('live-puuid-4', 'RANKED_SOLO_5x5').points).toEqual([]);
+    } finally {
+      CacheService.delByPrefix('ddragon:');
+    }
+  });
+});
+
+describe('Watchlist', () => {
+  function createPollingClient(state: { level: number; lp: number; matchId: string; gameName?: string }) {
+    return {
+      getAccountByRiotId: async (gameName: string, tagLine: string) => ({ puuid: `watch-${gameName}`, gameName, tagLine }),
+      getAccountByPuuid: async (puuid: string) => ({ puuid, gameName: state.gameName ?? puuid.replace('watch-', ''), tagLine: 'NA1' }),
+      getSummonerByPuuid: async (puuid: string) => ({ puuid, profileIconId: 1, revisionDate: 0, summonerLevel: state.level }),
+      getLeagueEntriesbyEncryptedPUUID: async (puuid: string) => [{
+        leagueId: 'league', puuid, queueType: 'RANKED_SOLO_5x5', tier: 'GOLD', rank: 'II', leaguePoints: state.lp,
+        wins: 10, losses: 8, hotStreak: false, veteran: false, freshBlood: false, inactive: false
+      }],
+      getMatchIdsByPuuid: async () => [state.matchId]
+    } as unknown as RiotClient;
+  }
+
+  it('should record a baseline on the first poll and report level, rank and new-game changes after', async () => {
+    const state = { level: 100, lp: 50, matchId: 'NA1_1' };
+    const riotClient = createPollingClient(state);
+    const { player, added } = await addWatchedPlayer('Watched#NA1', 'americas', riotClient, 10);
+    const notified: string[] = [];
+    const unsubscribe = onWatchlistChange(changes => notified.push(...changes.map(change => change.type)));
+
+    expect(added).toBe(true);
+    expect(await pollWatchedPlayer(player.puuid, riotClient, 1000)).toEqual([]);
+
+    Object.assign(state, { level: 101, lp: 70, matchId: 'NA1_2' });
+    const changes = await pollWatchedPlayer(player.puuid, riotClient, 2000);
+    unsubscribe();
+
+    expect(changes.map(change => change.type)).toEqual(['level', 'rank', 'newGame']);
+    expect(changes[1]).toMatchObject({ queueType: 'RANKED_SOLO_5x5', previous: { leaguePoints: 50 }, current: { leaguePoints: 70 } });
+    expect(notified).toEqual(['level', 'rank', 'newGame']);
+    expect(getWatchlistChanges({ puuid: player.puuid })).toHaveLength(3);
+    expect((await addWatchedPlayer('Watched#NA1', 'americas', riotClient, 10)).added).toBe(false);
+    await expect(addWatchedPlayer('Overflow#NA1', 'americas', riotClient, 1)).rejects.toBeInstanceOf(WatchlistFullError);
+  });
+
+  it('should pick up a new Riot ID when polling', async () => {
+    const state: { level: number; lp: number; matchId: string; gameName?: string } = { level: 100, lp: 50, matchId: 'NA1_1' };
+    const riotClient = createPollingClient(state);
+    const { player } = await addWatchedPlayer('Renamed#NA1', 'americas', riotClient, 10);
+    await pollWatchedPlayer(player.puuid, riotClient, 1000);
+
+    Object.assign(state, { gameName: 'NewName', level: 101 });
+    CacheService.del(CacheKeys.riotId(player.puuid));
+    const changes = await pollWatchedPlayer(player.puuid, riotClient, 2000);
+
+    expect(changes[0]).toMatchObject({ type: 'level', riotId: 'NewName#NA1' });
+    expect(getWatchedPlayer(player.puuid)?.riotId).toBe('NewName#NA1');
+  });
+
+  it('should poll the most overdue player and skip players polled within the interval', async () => {
+    const riotClient = createPollingClient({ level: 30, lp: 0, matchId: 'NA1_9' });
+    const { player: early } = await addWatchedPlayer('Early#NA1', 'americas', riotClient, 10);
+    const { player: late } = await addWatchedPlayer('Late#NA1', 'americas', riotClient, 10);
+    await pollWatchedPlayer(early.puuid, riotClient, 1000);
+    await pollWatchedPlayer(late.puuid, riotClient, 5000);
+    const poller = new WatchlistPoller(riotClient, 10000);
+
+    expect(await poller.pollNext(6000)).toBeNull();
+    expect(await poller.pollNext(12000)).toBe(early.puuid);
+  });
+
+  it('should keep a single polling chain when restarted while a poll is in flight', async () => {
+    const poller = new WatchlistPoller(createPollingClient({ level: 30, lp: 0, matchId: 'NA1_9' }), 20);
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    let calls = 0;
+    let release!: () => void;
+    const firstPoll = new Promise<void>(resolve => { release = resolve; });
+    poller.pollNext = async () => {
+      if (++calls === 1) {
+        await firstPoll;
+      }
+      return null;
+    };
+
+    poller.start();
+    for (let i = 0; i < 50 && calls === 0; i++) {
+      await wait(5);
+    }
+    poller.stop();
+    poller.start();
+    release();
+    await wait(60);
+    poller.stop();
+    const callsAtStop = calls;
+    await wait(60);
+
+    expect(poller.isRunning()).toBe(false);
+    expect(callsAtStop).toBeGreaterThan(1);
+    expect(calls).toBe(callsAtStop);
+  });
+});
+
+describe('Player events and webhooks', () => {
+  it('should emit events for rank changes, renames and new games but not first observations', () => {
+    const events: PlayerEvent[] = [];
+    const unsubscribe = onPlayerEvent(event => events.push(event));
+    const entry = (tier: string, rank: string): LeagueEntryDto => ({
+      leagueId: 'league', puuid: 'events-puuid', queueType: 'RANKED_SOLO_5x5', tier, rank, leaguePoints: 0, wins: 1, losses: 1,
+      hotStreak: false, veteran: false, freshBlood: false, inactive: false
+    });
+
+    recordRiotId('events-puuid', 'Before#NA1');
+    recordRiotId('events-puuid', 'After#NA1');
+    recordLeagueEntries('events-puuid', [entry('MASTER', 'I')]);
+    recordLeagueEntries('events-puuid', [entry('GRANDMASTER', 'I')]);
+    recordLeagueEntries('events-puuid', [entry('DIAMOND', 'I')]);
+    const game = { gameId: 42, platform: 'na1' as const, queueId: 420, gameMode: 'CLASSIC' };
+    observeActiveGame('events-puuid', game);
+    observeActiveGame('events-puuid', game);
+    unsubscribe();
+
+    expect(events.map(event => event.type)).toEqual(['account.riot_id_changed', 'rank.promoted', 'rank.demoted', 'game.started']);
+    expect(events[0]?.data).toEqual({ previous: 'Before#NA1', current: 'After#NA1' });
+  });
+
+  it('should sign deliveries and retry until the subscriber accepts them', async () => {
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(received.length === 1 ? 500 : 204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    configureWebhooks(null, { retryBaseDelayMs: 10, maxAttempts: 3, allowPrivateDestinations: true });
+    const stop = startWebhookDispatch();
+    const subscription = await createWebhook({
+      url: `http://127.0.0.1:${port}/hook`,
+      events: ['account.riot_id_changed'],
+      secret: 'a-very-secret-value',
+      puuids: ['hook-puuid']
+    });
+
+    recordRiotId('hook-puuid', 'Old#NA1');
+    recordRiotId('hook-puuid', 'New#NA1');
+    recordRiotId('other-puuid', 'Old#NA1');
+    recordRiotId('other-puuid', 'New#NA1');
+    for (let i = 0; i < 50 && getWebhookDeliveries(subscription.id)[0]?.status !== 'delivered'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    stop();
+    server.close();
+
+    const [delivery] = getWebhookDeliveries(subscription.id);
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 2, responseStatus: 204 });
+    expect(received).toHaveLength(2);
+    const { headers, body } = received[1]!;
+    expect(JSON.parse(body)).toMatchObject({ type: 'account.riot_id_changed', puuid: 'hook-puuid' });
+    expect(headers['x-webhook-signature']).toBe(signWebhookPayload('a-very-secret-value', Number(headers['x-webhook-timestamp']), body));
+  });
+
+  it('should refuse private, loopback and link-local destinations and not follow redirects', async () => {
+    configureWebhooks(null, { retryBaseDelayMs: 10, maxAttempts: 3, allowPrivateDestinations: false });
+    const hook = (url: string) => createWebhook({ url, events: ['rank.promoted'], secret: 'a-very-secret-value' });
+
+    for (const url of ['http://127.0.0.1:8080/', 'http://169.254.169.254/latest/meta-data', 'https://10.1.2.3/', 'http://[::1]/', 'http://[::ffff:192.168.0.1]/', 'http://localhost/']) {
+      await expect(hook(url)).rejects.toBeInstanceOf(WebhookDestinationError);
+    }
+    const publicHook = await hook('https://93.184.216.34/hook');
+    expect(publicHook.url).toBe('https://93.184.216.34/hook');
+    deleteWebhook(publicHook.id);
+
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push(req.url ?? '');
+      res.writeHead(302, { Location: '/internal' }).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    configureWebhooks(null, { retryBaseDelayMs: 10, maxAttempts: 3, allowPrivateDestinations: true });
+    const subscription = await hook(`http://127.0.0.1:${port}/hook`);
+    const event = emitPlayerEvent('rank.promoted', 'redirect-puuid', {
+      queueType: 'RANKED_SOLO_5x5',
+      previous: { tier: 'GOLD', rank: 'I', leaguePoints: 90 },
+      current: { tier: 'PLATINUM', rank: 'IV', leaguePoints: 0 }
+    });
+    dispatchEvent(event);
+    for (let i = 0; i < 50 && getWebhookDeliveries(subscription.id)[0]?.status === 'pending'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    server.close();
+
+    expect(getWebhookDeliveries(subscription.id)[0]).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 302 });
+    expect(requests).toEqual(['/hook']);
+  });
+});
+
+describe('Leaderboards', () => {
+  it('should sort by LP, paginate, resolve Riot IDs for the page and cache the league list', async () => {
+    const item = (puuid: string, leaguePoints: number, wins: number, losses: number) => ({
+      puuid, leaguePoints, rank: 'I', wins, losses, veteran: false, inactive: false, freshBlood: false, hotStreak: false
+    });
+    const calls = { league: 0, account: 0 };
+    const riotClient = {
+      getChallengerLeague: async () => {
+        calls.league++;
+        return {
+          leagueId: 'league', tier: 'CHALLENGER', name: 'Test League', queue: 'RANKED_SOLO_5x5',
+          entries: [item('third', 900, 50, 50), item('first', 1500, 100, 50), item('fourth', 800, 0, 0), item('second', 1200, 60, 40)]
+        };
+      },
+      getAccountByPuuid: async (puuid: string) => {
+        calls.account++;
+        if (puuid === 'fourth') {
+          throw new PlayerNotFoundError('Player not found');
+        }
+        return { puuid, gameName: `Player-${puuid}`, tagLine: 'KR1' };
+      }
+    } as unknown as RiotClient;
+    const query = { platform: 'kr' as const, queue: 'RANKED_SOLO_5x5' as const, tier: 'challenger' as const, page: 2, pageSize: 2 };
+
+    const leaderboard = await getLeaderboard({ ...query, resolveRiotIds: true }, riotClient);
+    const firstPage = await getLeaderboard({ ...query, page: 1, resolveRiotIds: false }, riotClient);
+
+    expect(leaderboard).toMatchObject({ totalEntries: 4, totalPages: 2, page: 2 });
+    expect(leaderboard.entries.map(entry => [entry.position, entry.puuid, entry.riotId, entry.winRate])).toEqual([
+      [3, 'third', 'Player-third#KR1', 50],
+      [4, 'fourth', null, 0]
+    ]);
+    expect(firstPage.entries.map(entry => entry.riotId)).toEqual([null, null]);
+    expect(calls).toEqual({ league: 1, account: 2 });
+  });
+});
+
+describe('Reverse lookups and Riot ID history', () => {
+  it('should resolve profiles by PUUID, keep Riot ID history and drop profiles cached under the old Riot ID', async () => {
+    let current = { gameName: 'OldName', tagLine: 'NA1' };
+    const riotClient = {
+      getAccountByRiotId: async () => ({ puuid: 'renamed-puuid', ...current }),
+      getAccountByPuuid: async (puuid: string) => ({ puuid, ...current }),
+      getSummonerByPuuid: async (puuid: string) => ({ puuid, profileIconId: 1, revisionDate: 0, summonerLevel: 30 }),
+      getLeagueEntriesbyEncryptedPUUID: async () => []
+    } as unknown as RiotClient;
+
+    await getAccountProfile('oldname#na1', 'americas', riotClient);
+    const byPuuid = await getAccountProfileByPuuid('renamed-puuid', 'americas', riotClient);
+    expect(byPuuid.data).toMatchObject({ puuid: 'renamed-puuid', gameName: 'OldName' });
+    expect(CacheService.getCachedAccount('OldName#NA1', 'americas')).toBeDefined();
+
+    current = { gameName: 'NewName', tagLine: 'NA1' };
+    const renamed = await getAccountProfileByPuuid('renamed-puuid', 'americas', riotClient, { refresh: true });
+
+    expect(renamed.data).toMatchObject({ gameName: 'NewName', tagLine: 'NA1' });
+    expect(CacheService.getCachedAccount('oldname#na1', 'americas')).toBeUndefined();
+    expect(CacheService.getCachedAccount('OldName#NA1', 'americas')).toBeUndefined();
+    expect(getRiotIdHistory('renamed-puuid').map(record => record.riotId)).toEqual(['NewName#NA1', 'OldName#NA1']);
+  });
+});
+
+describe('Player comparison', () => {
+  it('should align players, find shared champions and count games together and against', async () => {
+    const matches: Record<string, MatchDto> = {
+      CMP_1: makeMatch([
+        makeParticipant({ puuid: 'puuid-Duo', teamId: 100, win: true, championId: 103, championName: 'Ahri' }),
+        makeParticipant({ puuid: 'puuid-Rival', teamId: 100, win: true })
+      ]),
+      CMP_2: makeMatch([
+        makeParticipant({ puuid: 'puuid-Duo', teamId: 100, win: true }),
+        makeParticipant({ puuid: 'puuid-Rival', teamId: 200, win: false })
+      ]),
+      CMP_3: makeMatch([makeParticipant({ puuid: 'puuid-Duo', win: false })])
+    };
+    const history: Record<string, string[]> = { 'puuid-Duo': ['CMP_1', 'CMP_2', 'CMP_3'], 'puuid-Rival': ['CMP_1', 'CMP_2'] };
+    const { riotClient } = createStubClient();
+    Object.assign(riotClient, {
+      getMatchIdsByPuuid: async (puuid: string) => history[puuid] ?? [],
+      getMatchById: async (matchId: string) => ({ ...matches[matchId]!, metadata: { ...matches[matchId]!.metadata, matchId } })
+    });
+
+    const comparison = await comparePlayers(['Duo#NA1', 'Missing#NA1', 'Rival#NA1'], 'americas', 20, riotClient);
+
+    expect(comparison.players.map(player => player.success)).toEqual([true, false, true]);
+    expect(comparison.players[0]).toMatchObject({ puuid: 'puuid-Duo', recentMatches: { gamesAnalyzed: 3, wins: 2, losses: 1 } });
+    expect(comparison.players[1]).toMatchObject({ riotId: 'Missing#NA1', status: 404 });
+    expect(comparison.championOverlap).toEqual([{
+      championId: 157,
+      championName: 'Yasuo',
+      players: [{ riotId: 'Duo#NA1', games: 2, winRate: 50 }, { riotId: 'Rival#NA1', games: 2, winRate: 50 }]
+    }]);
+    expect(comparison.headToHead).toHaveLength(1);
+    expect(comparison.headToHead[0]).toMatchObject({
+      players: ['Duo#NA1', 'Rival#NA1'],
+      together: { games: 1, wins: 1 },
+      against: { games: 1, wins: [1, 0] }
+    });
+    expect(comparison.headToHead[0]?.matches.find(match => !match.sameTeam)?.winners).toEqual(['Duo#NA1']);
+  });
+});
+
+describe('Teamfight Tactics', () => {
+  it('should discover the TFT platform and return every ranked queue, including Hyper Roll ratings', async () => {
+    const riotClient = {
+      getAccountByRiotId: async (gameName: string, tagLine: string) => ({ puuid: 'tft-puuid', gameName, tagLine }),
+      getTftSummonerByPuuid: async (puuid: string, platform: string) => {
+        if (platform !== 'br1') {
+          throw new PlayerNotFoundError('Player not found');
+        }
+        return { puuid, profileIconId: 7, revisionDate: 0, summonerLevel: 220 };
+      },
+      getTftLeagueEntriesByPuuid: async (puuid: string) => [
+        { puuid, queueType: 'RANKED_TFT', tier: 'DIAMOND', rank: 'III', leaguePoints: 12, wins: 30, losses: 10, hotStreak: true },
+        { puuid, queueType: 'RANKED_TFT_DOUBLE_UP', tier: 'GOLD', rank: 'I', leaguePoints: 80, wins: 5, losses: 5 },
+        { puuid, queueType: 'RANKED_TFT_TURBO', ratedTier: 'PURPLE', ratedRating: 3500, wins: 9, losses: 1 }
+      ]
+    } as unknown as RiotClient;
+
+    const { data } = await getTftProfile('Tactician#BR1', 'americas', riotClient);
+
+    expect(data).toMatchObject({ puuid: 'tft-puuid', summonerLevel: 220, platform: 'br1' });
+    expect(data.queues['RANKED_TFT']).toMatchObject({ queueName: 'Ranked TFT', tier: 'DIAMOND', top4Rate: 75, hotStreak: true });
+    expect(data.queues['RANKED_TFT_DOUBLE_UP']).toMatchObject({ queueName: 'Ranked TFT Double Up', hotStreak: false });
+    expect(data.queues['RANKED_TFT_TURBO']).toMatchObject({ tier: null, leaguePoints: null, ratedTier: 'PURPLE', ratedRating: 3500, top4Rate: 90 });
+    expect(CacheService.getCachedPlatform('tft-puuid')).toBe('br1');
+  });
+
+  it('should summarize placement, active traits and units for the player', () => {
+    const participant = (puuid: string, placement: number): TftParticipantDto => ({
+      puuid, placement, level: 8, gold_left: 3, last_round: 32, players_eliminated: 1, time_eliminated: 1900,
+      total_damage_to_players: 95,
+      traits: [
+        { name: 'Set13_Sniper', num_units: 2, style: 1, tier_current: 1, tier_total: 3 },
+        { name: 'Set13_Sorcerer', num_units: 1, style: 0, tier_current: 0, tier_total: 3 },
+        { name: 'Set13_Family', num_units: 5, style: 3, tier_current: 2, tier_total: 3 }
+      ],
+      units: [
+        { character_id: 'TFT13_Vi', tier: 2, rarity: 1, itemNames: [] },
+        { character_id: 'TFT13_Jinx', tier: 3, rarity: 4, itemNames: ['TFT_Item_InfinityEdge', 'TFT_Item_LastWhisper'] }
+      ]
+    });
+    const match: TftMatchDto = {
+      metadata: { data_version: '6', match_id: 'BR1_555', participants: ['tft-puuid', 'other'] },
+      info: {
+        game_datetime: 1700000000000, game_length: 1934.6, game_version: '14.18', queue_id: 1160, tft_set_number: 13,
+        participants: [participant('other', 1), participant('tft-puuid', 3)]
+      }
+    };
+
+    const summary = summarizeTftMatch(match, 'tft-puuid');
+
+    expect(summary).toMatchObject({ matchId: 'BR1_555', queueName: 'Double Up', placement: 3, top4: true, gameLength: 1935 });
+    expect(summary?.traits.map(trait => trait.name)).toEqual(['Family', 'Sniper']);
+    expect(summary?.units[0]).toEqual({ characterId: 'TFT13_Jinx', name: 'Jinx', starLevel: 3, rarity: 4, items: ['InfinityEdge', 'LastWhisper'] });
+    expect(summarizeTftMatch(match, 'missing')).toBeNull();
+  });
+
+  it('should fetch TFT matches a few at a time and skip matches that fail', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const riotClient = {
+      getTftMatchById: async (matchId: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        if (matchId === 'TFT_SETTLED_3') {
+          throw new RateLimitError(60);
+        }
+        return { metadata: { data_version: '6', match_id: matchId, participants: [] }, info: { participants: [] } };
+      }
+    } as unknown as RiotClient;
+    const matchIds = Array.from({ length: 10 }, (_, index) => `TFT_SETTLED_${index}`);
+
+    const { matches, failedMatchIds } = await getTftMatchesSettled(matchIds, 'americas', riotClient);
+
+    expect(maxInFlight).toBeLessThanOrEqual(4);
+    expect(failedMatchIds).toEqual(['TFT_SETTLED_3']);
+    expect(matches.map(match => match.metadata.match_id)).toEqual(matchIds.filter(id => id !== 'TFT_SETTLED_3'));
+  });
+});
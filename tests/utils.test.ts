@@ -6,6 +6,15 @@
 
 import { describe, it, expect } from 'vitest';
 import { RiotIdParser } from '../src/utils/riot-id-parser.js';
+import { getPlatformFromMatchId } from '../src/utils/platform-mapping.js';
+import { queryPlatformsInParallel } from '../src/utils/parallel-queries.js';
+import { mapWithConcurrency } from '../src/utils/concurrency.js';
+import { SingleFlight } from '../src/utils/single-flight.js';
+import { getRankScore, getWinRate, compareRanks, averageRanks, getNextMilestone, getRankFromScore } from '../src/utils/rank.js';
+import { createLogger, configureLogger, runWithRequestId, isLogLevel, DEFAULT_REDACT_KEYS } from '../src/utils/logger.js';
+import { CacheService } from '../src/services/cache.js';
+import { PlayerNotFoundError, RateLimitError, RiotApiError } from '../src/api/errors.js';
+import type { Platform } from '../src/types/index.js';
 
 describe('RiotIdParser', () => {
   describe('isValid', () => {
@@ -47,4 +56,277 @@ describe('RiotIdParser', () => {
       expect(() => RiotIdParser.parse('InvalidFormat')).toThrow('Invalid Riot ID format');
     });
   });
+
+  describe('parseMany', () => {
+    it('should extract Riot IDs from pasted lobby text', () => {
+      const text = [
+        'Samir#2468 joined the lobby',
+        'Snow Ball#0625 joined the lobby.',
+        'Troublemaker#0525 left the lobby',
+        'Faker#KR1 joined the lobby'
+      ].join('\n');
+
+      expect(RiotIdParser.parseMany(text)).toEqual([
+        { gameName: 'Samir', tagLine: '2468' },
+        { gameName: 'Snow Ball', tagLine: '0625' },
+        { gameName: 'Troublemaker', tagLine: '0525' },
+        { gameName: 'Faker', tagLine: 'KR1' }
+      ]);
+    });
+
+    it('should accept comma-separated IDs, skip invalid entries and drop duplicates', () => {
+      expect(RiotIdParser.parseMany('Samir#2468, not an id,samir#2468 ,Faker#KR1\r\n')).toEqual([
+        { gameName: 'Samir', tagLine: '2468' },
+        { gameName: 'Faker', tagLine: 'KR1' }
+      ]);
+    });
+
+    it('should skip lines with malformed percent-encoding instead of throwing', () => {
+      expect(RiotIdParser.isValid('100%#NA1')).toBe(false);
+      expect(RiotIdParser.parseMany('GG 100% joined the lobby\nSamir#2468 joined the lobby')).toEqual([
+        { gameName: 'Samir', tagLine: '2468' }
+      ]);
+    });
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep result order and respect the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe('getPlatformFromMatchId', () => {
+  it('should derive the platform from the match ID prefix', () => {
+    expect(getPlatformFromMatchId('NA1_1234567890')).toBe('na1');
+    expect(getPlatformFromMatchId('KR_7000000000')).toBe('kr');
+    expect(getPlatformFromMatchId('EUW1_6500000000')).toBe('euw1');
+  });
+
+  it('should reject unknown or missing prefixes', () => {
+    expect(getPlatformFromMatchId('XX9_123')).toBeNull();
+    expect(getPlatformFromMatchId('1234567890')).toBeNull();
+    expect(getPlatformFromMatchId('_123')).toBeNull();
+  });
+});
+
+describe('queryPlatformsInParallel', () => {
+  /**
+   * Query function that only finds the player on one platform, recording every platform it was called for
+   */
+  function playerOn(home: Platform, calls: Platform[], delays: Partial<Record<Platform, number>> = {}) {
+    return async (puuid: string, platform: Platform) => {
+      calls.push(platform);
+      await new Promise(resolve => setTimeout(resolve, delays[platform] ?? 0));
+      if (platform !== home) {
+        throw new PlayerNotFoundError('Player not found');
+      }
+      return { puuid, platform };
+    };
+  }
+
+  it('should discover the platform and remember it for later lookups', async () => {
+    const calls: Platform[] = [];
+    const result = await queryPlatformsInParallel('puuid-discover', 'europe', playerOn('eun1', calls));
+
+    expect(result.platform).toBe('eun1');
+    expect(calls).toHaveLength(5);
+    expect(CacheService.getCachedPlatform('puuid-discover')).toBe('eun1');
+
+    calls.length = 0;
+    await queryPlatformsInParallel('puuid-discover', 'europe', playerOn('eun1', calls));
+    expect(calls).toEqual(['eun1']);
+  });
+
+  it('should fall back to discovery when the remembered platform returns 404', async () => {
+    CacheService.cachePlatform('puuid-moved', 'na1');
+    const calls: Platform[] = [];
+
+    const result = await queryPlatformsInParallel('puuid-moved', 'americas', playerOn('br1', calls));
+
+    expect(result.platform).toBe('br1');
+    expect(calls[0]).toBe('na1');
+    expect(CacheService.getCachedPlatform('puuid-moved')).toBe('br1');
+  });
+
+  it('should query an explicit platform without discovery', async () => {
+    const calls: Platform[] = [];
+    const result = await queryPlatformsInParallel('puuid-explicit', 'asia', playerOn('kr', calls), { platform: 'kr' });
+
+    expect(result.platform).toBe('kr');
+    expect(calls).toEqual(['kr']);
+  });
+
+  it('should resolve as soon as one platform returns data', async () => {
+    const calls: Platform[] = [];
+    const started = Date.now();
+    const result = await queryPlatformsInParallel('puuid-fast', 'americas', playerOn('la1', calls, { na1: 500, br1: 500, la2: 500 }));
+
+    expect(result.platform).toBe('la1');
+    expect(Date.now() - started).toBeLessThan(400);
+  });
+
+  it('should prefer platforms with data over empty results', async () => {
+    const result = await queryPlatformsInParallel('puuid-league', 'asia', async (puuid, platform) =>
+      platform === 'jp1' ? [{ queueType: 'RANKED_SOLO_5x5' }] : []
+    );
+
+    expect(result.platform).toBe('jp1');
+  });
+
+  it('should throw PlayerNotFoundError when every platform fails', async () => {
+    await expect(queryPlatformsInParallel('puuid-missing', 'americas', playerOn('kr', [])))
+      .rejects.toBeInstanceOf(PlayerNotFoundError);
+  });
+
+  it('should rethrow the upstream error when every platform fails without a 404', async () => {
+    await expect(queryPlatformsInParallel('puuid-throttled', 'americas', async () => { throw new RateLimitError(5); }))
+      .rejects.toBeInstanceOf(RateLimitError);
+
+    // A remembered platform that fails the same way is not treated as a move
+    CacheService.cachePlatform('puuid-unavailable', 'na1');
+    const calls: Platform[] = [];
+    await expect(queryPlatformsInParallel('puuid-unavailable', 'americas', async (puuid, platform) => {
+      calls.push(platform);
+      throw new RiotApiError('Service unavailable', 503);
+    })).rejects.toMatchObject({ statusCode: 503 });
+    expect(calls).toEqual(['na1']);
+    expect(CacheService.getCachedPlatform('puuid-unavailable')).toBe('na1');
+  });
+});
+
+describe('SingleFlight', () => {
+  it('should share one in-flight promise between identical concurrent calls', async () => {
+    const group = new SingleFlight();
+    let executions = 0;
+    const work = async () => {
+      executions++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return executions;
+    };
+
+    const results = await Promise.all([group.do('a', work), group.do('a', work), group.do('b', work)]);
+
+    expect(results[0]).toBe(results[1]);
+    expect(executions).toBe(2);
+    expect(group.getStats()).toEqual({ calls: 3, executions: 2, deduplicated: 1, inFlight: 0 });
+  });
+
+  it('should release the key once the call settles, including failures', async () => {
+    const group = new SingleFlight();
+
+    await expect(group.do('a', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(group.do('a', async () => 'ok')).resolves.toBe('ok');
+    expect(group.getStats().deduplicated).toBe(0);
+  });
+});
+
+describe('logger', () => {
+  const puuid = 'a'.repeat(78);
+
+  function captureLogs(level: 'debug' | 'info' | 'warn' | 'error'): Record<string, unknown>[] {
+    const lines: Record<string, unknown>[] = [];
+    configureLogger({ level, redactPuuids: true, redactKeys: DEFAULT_REDACT_KEYS, write: (line) => lines.push(JSON.parse(line)) });
+    return lines;
+  }
+
+  it('should write JSON lines at or above the configured level', () => {
+    const lines = captureLogs('warn');
+    const logger = createLogger('test');
+
+    logger.info('hidden');
+    logger.warn('shown', { count: 2 });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ level: 'warn', component: 'test', msg: 'shown', count: 2 });
+  });
+
+  it('should redact PUUIDs and tokens', () => {
+    const lines = captureLogs('debug');
+
+    createLogger('test').debug('request', {
+      url: `https://na1.api.riotgames.com/lol/summoner/v4/summoners/by-puuid/${puuid}`,
+      puuid,
+      headers: { 'X-Riot-Token': 'RGAPI-secret' }
+    });
+
+    expect(JSON.stringify(lines[0])).not.toContain(puuid);
+    expect(JSON.stringify(lines[0])).not.toContain('RGAPI-secret');
+    expect(lines[0]).toMatchObject({ url: 'https://na1.api.riotgames.com/lol/summoner/v4/summoners/by-puuid/[REDACTED]', puuid: '[REDACTED]' });
+  });
+
+  it('should attach the request ID across async calls', async () => {
+    const lines = captureLogs('debug');
+    const logger = createLogger('test');
+
+    await runWithRequestId('req-1', async () => {
+      await Promise.resolve();
+      logger.info('inside');
+    });
+    logger.info('outside');
+
+    expect(lines[0]).toMatchObject({ msg: 'inside', requestId: 'req-1' });
+    expect(lines[1]?.['requestId']).toBeUndefined();
+  });
+
+  it('should only accept known log levels, not inherited object keys', () => {
+    expect(isLogLevel('warn')).toBe(true);
+    expect(isLogLevel('toString')).toBe(false);
+    expect(isLogLevel('constructor')).toBe(false);
+  });
+});
+
+describe('getRankScore', () => {
+  it('should order ranks across divisions, tiers and apex tiers', () => {
+    expect(getRankScore('GOLD', 'I', 99)).toBeLessThan(getRankScore('PLATINUM', 'IV', 0));
+    expect(getRankScore('GOLD', 'I', 0) - getRankScore('GOLD', 'II', 80)).toBe(20);
+    expect(getRankScore('CHALLENGER', 'I', 1200)).toBeGreaterThan(getRankScore('MASTER', 'I', 300));
+    expect(getRankScore('UNRANKED', '', 0)).toBe(-1);
+  });
+});
+
+describe('getWinRate', () => {
+  it('should round to a whole percentage and treat zero games as 0%', () => {
+    expect(getWinRate(44, 47)).toBe(48);
+    expect(getWinRate(0, 0)).toBe(0);
+  });
+});
+
+describe('Rank arithmetic', () => {
+  const rank = (tier: string, division: string, leaguePoints: number) => ({ tier, rank: division, leaguePoints });
+
+  it('should sort ranks by tier, division and LP, and apex ties by tier', () => {
+    const sorted = [rank('GRANDMASTER', 'I', 300), rank('GOLD', 'I', 50), rank('MASTER', 'I', 300), rank('GOLD', 'IV', 90)]
+      .sort(compareRanks)
+      .map(entry => entry.tier + ' ' + entry.rank);
+
+    expect(sorted).toEqual(['GOLD IV', 'GOLD I', 'MASTER I', 'GRANDMASTER I']);
+  });
+
+  it('should convert scores back to ranks and average ranks', () => {
+    expect(getRankFromScore(getRankScore('EMERALD', 'III', 42))).toEqual(rank('EMERALD', 'III', 42));
+    expect(getRankFromScore(3150)).toEqual(rank('MASTER', 'I', 350));
+    expect(averageRanks([rank('GOLD', 'IV', 0), rank('GOLD', 'II', 0), rank('UNRANKED', '', 0)])).toEqual(rank('GOLD', 'III', 0));
+    expect(averageRanks([])).toBeNull();
+  });
+
+  it('should find the next division or tier and the LP needed', () => {
+    expect(getNextMilestone('SILVER', 'II', 65)).toEqual({ tier: 'SILVER', rank: 'I', lpNeeded: 35 });
+    expect(getNextMilestone('PLATINUM', 'I', 20)).toEqual({ tier: 'EMERALD', rank: 'IV', lpNeeded: 80 });
+    expect(getNextMilestone('DIAMOND', 'I', 99)).toEqual({ tier: 'MASTER', rank: 'I', lpNeeded: 1 });
+    expect(getNextMilestone('MASTER', 'I', 400)).toEqual({ tier: 'GRANDMASTER', rank: 'I', lpNeeded: null });
+    expect(getNextMilestone('CHALLENGER', 'I', 1500)).toBeNull();
+  });
 });